@@ -3,7 +3,7 @@ import { ourongxing, react } from "@ourongxing/eslint-config"
 export default ourongxing({
   type: "app",
   // 貌似不能 ./ 开头，
-  ignores: ["src/routeTree.gen.ts", "imports.app.d.ts", "public/", ".vscode", "**/*.json"],
+  ignores: ["src/routeTree.gen.ts", "shared/defined-sources.ts", "imports.app.d.ts", "public/", ".vscode", "**/*.json"],
 }).append(react({
   files: ["src/**"],
 }))
@@ -7,6 +7,11 @@ import { projectDir } from "./shared/dir"
 const nitroOption: Parameters<typeof viteNitro>[0] = {
   experimental: {
     database: true,
+    tasks: true,
+  },
+  scheduledTasks: {
+    // 每分钟检查一次，各源是否到了刷新间隔
+    "* * * * *": ["source:prefetch"],
   },
   rollupConfig: {
     plugins: [RollopGlob()],
@@ -22,6 +27,13 @@ const nitroOption: Parameters<typeof viteNitro>[0] = {
       connector: "better-sqlite3",
     },
   },
+  // CACHE_DRIVER=kv 时使用，可以换成任意 unstorage driver，例如 cloudflare-kv-binding、vercel-kv、redis
+  // https://unstorage.unjs.io/drivers
+  storage: {
+    sources: {
+      driver: "memory",
+    },
+  },
   imports: {
     dirs: ["server/utils", "shared"],
   },
@@ -34,6 +46,12 @@ const nitroOption: Parameters<typeof viteNitro>[0] = {
 
 if (process.env.VERCEL) {
   nitroOption.preset = "vercel-edge"
+  nitroOption.unenv = {
+    alias: {
+      // edge 上不能用原生模块，图片不缩放
+      sharp: "unenv/mock/proxy",
+    },
+  }
   // You can use other online database, do it yourself. For more info: https://db0.unjs.io/connectors
   nitroOption.database = undefined
   // nitroOption.vercel = {
@@ -46,6 +64,8 @@ if (process.env.VERCEL) {
   nitroOption.unenv = {
     alias: {
       "safer-buffer": "node:buffer",
+      // 图片缩放依赖原生模块，cloudflare 上不缩放
+      "sharp": "unenv/mock/proxy",
     },
   }
   nitroOption.database = {
@@ -0,0 +1,17 @@
+// 由 workbox 生成的 service worker 通过 importScripts 引入，处理关键词提醒的推送
+self.addEventListener("push", (e) => {
+  if (!e.data) return
+  const { title, body, url, tag } = e.data.json()
+  e.waitUntil(self.registration.showNotification(title, {
+    body,
+    tag,
+    icon: "/pwa-192x192.png",
+    data: { url },
+  }))
+})
+
+self.addEventListener("notificationclick", (e) => {
+  e.notification.close()
+  const url = e.notification.data?.url
+  if (url) e.waitUntil(self.clients.openWindow(url))
+})
@@ -37,6 +37,26 @@ const pwaOption: Partial<VitePWAOptions> = {
   },
   workbox: {
     navigateFallbackDenylist: [/^\/api/],
+    // 关键词提醒的 Web Push
+    importScripts: ["push.js"],
+    runtimeCaching: [
+      {
+        // 网络优先，新鲜度交给接口返回的 Cache-Control 和 ETag，断网时用上一次的数据
+        urlPattern: /\/api\/s\?/,
+        handler: "NetworkFirst",
+        options: {
+          cacheName: "sources",
+          networkTimeoutSeconds: 10,
+          expiration: {
+            maxEntries: 200,
+            maxAgeSeconds: 24 * 60 * 60,
+          },
+          cacheableResponse: {
+            statuses: [200],
+          },
+        },
+      },
+    ],
   },
   devOptions: {
     enabled: process.env.SW_DEV === "true",
@@ -4,7 +4,8 @@ import { fileURLToPath } from "node:url"
 import { join } from "node:path"
 import { Buffer } from "node:buffer"
 import { consola } from "consola"
-import { originSources } from "../shared/pre-sources"
+import { originSources, scraperSources } from "../shared/pre-sources"
+import type { OriginSource } from "../shared/types"
 
 const projectDir = fileURLToPath(new URL("..", import.meta.url))
 const iconsDir = join(projectDir, "public", "icons")
@@ -25,7 +26,7 @@ async function downloadImage(url: string, outputPath: string, id: string) {
 
 async function main() {
   await Promise.all(
-    Object.entries(originSources).map(async ([id, source]) => {
+    Object.entries({ ...scraperSources, ...originSources }).map(async ([id, source]: [string, OriginSource]) => {
       try {
         const icon = join(iconsDir, `${id}.png`)
         if (fs.existsSync(icon)) {
@@ -1,11 +1,61 @@
-import { writeFileSync } from "node:fs"
+import { existsSync, readFileSync, writeFileSync } from "node:fs"
 import { join } from "node:path"
+import process from "node:process"
 import { pinyin } from "@napi-rs/pinyin"
 import { consola } from "consola"
+import glob from "fast-glob"
 import { projectDir } from "../shared/dir"
-import { genSources } from "../shared/pre-sources"
+import { Time, genSources, originSources } from "../shared/pre-sources"
+import type { OriginSource } from "../shared/types"
+import { verifyScraperSources } from "../shared/verify"
 
-const sources = genSources()
+// server/sources 里带元数据的 defineSource，元数据生成到 shared/defined-sources.ts
+// 源文件顶层只会用到 server/utils/source.ts 和 Time 这两个自动导入，先挂到全局上
+const sourceUtils = await import("../server/utils/source")
+Object.assign(globalThis, sourceUtils, { Time })
+const defined: Record<string, OriginSource> = {}
+const files = await glob(["server/sources/*.ts", "server/sources/**/index.ts"], { cwd: projectDir, absolute: true })
+for (const file of files.sort()) {
+  // 只有 defineSource({ id, ... }) 带元数据，其他源顶层可能依赖运行时（比如 trending 依赖 getters 的 glob 导入），不用加载
+  if (!/defineSource\(\{\s*id:/.test(readFileSync(file, "utf-8"))) continue
+  let source: unknown
+  try {
+    source = (await import(file)).default
+  } catch (e) {
+    consola.error(`Failed to load ${file}`, e)
+    process.exit(1)
+  }
+  if (!sourceUtils.isSourceDefinition(source)) continue
+  if (source.id in originSources || source.id in defined) {
+    consola.error(`Duplicate source id ${source.id} in ${file}`)
+    process.exit(1)
+  }
+  defined[source.id] = sourceUtils.definitionMeta(source)
+}
+writeFileSync(join(projectDir, "./shared/defined-sources.ts"), [
+  "// 由 scripts/source.ts 从 server/sources 里带元数据的 defineSource 生成，不要手动修改",
+  `import type { OriginSource } from "./types"`,
+  "",
+  `export const definedSources = ${JSON.stringify(defined, undefined, 2)} as const satisfies Record<string, OriginSource>`,
+  "",
+].join("\n"))
+consola.info(`Generated defined-sources.ts with ${Object.keys(defined).length} sources`)
+
+// 自部署时在项目根目录放 scrapers.json 声明抓取规则，不用写代码，格式见 example.scrapers.json
+let scrapers = {}
+const scraperConfig = join(projectDir, "scrapers.json")
+if (existsSync(scraperConfig)) {
+  try {
+    scrapers = verifyScraperSources(JSON.parse(readFileSync(scraperConfig, "utf-8")))
+    consola.info(`Loaded ${Object.keys(scrapers).length} sources from scrapers.json`)
+  } catch (e) {
+    consola.error("Invalid scrapers.json", e)
+    process.exit(1)
+  }
+}
+writeFileSync(join(projectDir, "./shared/scrapers.json"), JSON.stringify(scrapers, undefined, 2))
+
+const sources = genSources({ defined, scrapers })
 try {
   const pinyinMap = Object.fromEntries(Object.entries(sources)
     .filter(([, v]) => !v.redirect)
@@ -0,0 +1,71 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { checkAlerts, matchRule } from "./alert"
+import { getAlertTable } from "./database/alert"
+import { sendWebPush } from "./utils/webpush"
+
+vi.mock("./utils/webpush", () => ({
+  getVAPIDKeys: () => ({ publicKey: "", privateKey: "", subject: "" }),
+  sendWebPush: vi.fn(),
+}))
+
+describe("alert", () => {
+  const item = { id: "1", title: "Tesla 发布财报，特斯拉股价大涨", url: "" }
+
+  it("任意关键词命中，不区分大小写", () => {
+    expect(matchRule({ id: "r", keywords: ["tesla"], sources: [], created: 0 }, "jin10", item)).toBe(true)
+    expect(matchRule({ id: "r", keywords: ["苹果", "特斯拉"], sources: [], created: 0 }, "jin10", item)).toBe(true)
+    expect(matchRule({ id: "r", keywords: ["苹果"], sources: [], created: 0 }, "jin10", item)).toBe(false)
+  })
+
+  it("限定源", () => {
+    expect(matchRule({ id: "r", keywords: ["特斯拉"], sources: ["cls-telegraph"], created: 0 }, "jin10", item)).toBe(false)
+    expect(matchRule({ id: "r", keywords: ["特斯拉"], sources: ["jin10"], created: 0 }, "jin10", item)).toBe(true)
+  })
+  describe("checkAlerts", () => {
+    const news = (id: number) => ({ id, title: `特斯拉新闻${id}`, url: "" })
+    const push = vi.mocked(sendWebPush)
+    const pushed = () => push.mock.calls.map(([, payload]) => JSON.parse(payload).tag)
+
+    beforeEach(async () => {
+      const db = createDatabase(sqlite({ name: ":memory:" }))
+      vi.stubGlobal("useDatabase", () => db)
+      const alertTable = (await getAlertTable())!
+      await alertTable.addRule("user", { id: "r", keywords: ["特斯拉"], sources: [], created: 0 })
+      push.mockResolvedValue(new Response(null, { status: 201 }))
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      push.mockReset()
+    })
+
+    it("没有订阅推送时不记为已推送", async () => {
+      await checkAlerts("jin10", [news(1)])
+      expect(push).not.toHaveBeenCalled()
+      await (await getAlertTable())!.addSubscription("user", { endpoint: "https://push.example.com/1", keys: { p256dh: "", auth: "" } })
+      await checkAlerts("jin10", [news(1)])
+      expect(pushed()).toEqual(["jin10|1"])
+    })
+
+    it("推送失败的下次再推", async () => {
+      await (await getAlertTable())!.addSubscription("user", { endpoint: "https://push.example.com/1", keys: { p256dh: "", auth: "" } })
+      push.mockResolvedValueOnce(new Response(null, { status: 500 }))
+      await checkAlerts("jin10", [news(1)])
+      await checkAlerts("jin10", [news(1)])
+      await checkAlerts("jin10", [news(1)])
+      expect(pushed()).toEqual(["jin10|1", "jin10|1"])
+    })
+
+    it("超出上限的留到下次", async () => {
+      await (await getAlertTable())!.addSubscription("user", { endpoint: "https://push.example.com/1", keys: { p256dh: "", auth: "" } })
+      const list = [1, 2, 3, 4, 5, 6, 7].map(news)
+      await checkAlerts("jin10", list)
+      expect(pushed()).toEqual([1, 2, 3, 4, 5].map(k => `jin10|${k}`))
+      push.mockClear()
+      await checkAlerts("jin10", list)
+      expect(pushed()).toEqual(["jin10|6", "jin10|7"])
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import type { AlertRule, NewsItem, SourceID } from "@shared/types"
+import { getAlertTable } from "./database/alert"
+
+// 同一批数据每个用户最多推几条，避免刷屏
+const MaxPerUser = 5
+
+export function matchRule(rule: AlertRule, source: SourceID, item: NewsItem) {
+  if (rule.sources.length && !rule.sources.includes(source)) return false
+  const title = item.title.toLowerCase()
+  return rule.keywords.some(k => k && title.includes(k.toLowerCase()))
+}
+
+/**
+ * 新数据入库后检查所有用户的规则，命中且没推送过的通过 Web Push 发出去
+ */
+export async function checkAlerts(source: SourceID, items: NewsItem[]) {
+  try {
+    const vapid = getVAPIDKeys()
+    const alertTable = await getAlertTable()
+    if (!vapid || !alertTable) return
+
+    // 每个用户命中的条目，以及是哪些规则命中的，推送成功后按规则记下
+    const matched = new Map<string, Map<string, { item: NewsItem, rules: string[] }>>()
+    for (const { user, rule } of await alertTable.getAllRules()) {
+      const hits = items.filter(item => matchRule(rule, source, item))
+      if (!hits.length) continue
+      const unsent = new Set(await alertTable.getUnsent(rule.id, hits.map(k => `${source}|${k.id}`)))
+      const list = matched.get(user) ?? new Map()
+      hits.forEach((item) => {
+        const key = `${source}|${item.id}`
+        if (!unsent.has(key)) return
+        const entry = list.get(key) ?? { item, rules: [] }
+        entry.rules.push(rule.id)
+        list.set(key, entry)
+      })
+      if (list.size) matched.set(user, list)
+    }
+
+    const name = sources[source].title ? `${sources[source].name}-${sources[source].title}` : sources[source].name
+    for (const [user, list] of matched) {
+      const subscriptions = await alertTable.getSubscriptions(user)
+      if (!subscriptions.length) continue
+      let pushed = 0
+      for (const [key, { item, rules }] of [...list].slice(0, MaxPerUser)) {
+        const payload = JSON.stringify({
+          title: `${name} 关键词提醒`,
+          body: item.title,
+          url: item.url,
+          tag: key,
+        })
+        const results = await Promise.all(subscriptions.map(async (subscription) => {
+          try {
+            const res = await sendWebPush(subscription, payload, vapid)
+            if (res.status === 404 || res.status === 410) {
+              await alertTable.deleteSubscription(subscription.endpoint)
+              logger.info(`push subscription of ${user} expired`)
+            } else if (!res.ok) {
+              logger.warn(`push to ${user} failed, status ${res.status}`)
+            }
+            return res.ok
+          } catch (e) {
+            logger.error(e)
+            return false
+          }
+        }))
+        // 有一个设备收到就算推送过
+        if (!results.includes(true)) continue
+        for (const rule of rules) await alertTable.markSent(rule, [key])
+        pushed++
+      }
+      logger.success(`push ${pushed} alerts of ${source} to ${user}`)
+    }
+  } catch (e) {
+    logger.error(e)
+  }
+}
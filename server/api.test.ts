@@ -0,0 +1,125 @@
+import type { SearchResult, Webhook } from "@shared/types"
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { createApp, defineEventHandler, toWebHandler } from "h3"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import webhooks from "./api/me/webhooks"
+import source from "./api/s"
+import history from "./api/s/history"
+import rank from "./api/s/rank"
+import search from "./api/search"
+import { getCacheStore } from "./database/cache"
+import { getHistoryTable } from "./database/history"
+import { getRankTable } from "./database/rank"
+import { getSearchTable } from "./database/search"
+
+// getters 靠 rollup 插件导入全部源，这里只读缓存，不会真的去拉
+vi.mock("./getters", () => ({ getters: { weibo: async () => [] } }))
+
+describe("routes", () => {
+  const item = (id: string) => ({ id, title: `标题${id}`, url: `https://example.com/${id}` })
+  const now = Date.now()
+  const request = toWebHandler(createApp()
+    .use(defineEventHandler((event) => {
+      event.context.user = { id: "user" }
+    }))
+    .use("/api/me/webhooks", webhooks)
+    .use("/api/s/history", history)
+    .use("/api/s/rank", rank)
+    .use("/api/search", search)
+    .use("/api/s", source))
+  const get = async <T = any>(path: string) => {
+    const res = await request(new Request(`http://localhost${path}`))
+    return { status: res.status, body: await res.json() as T }
+  }
+  const post = async <T = any>(path: string, body: unknown) => {
+    const res = await request(new Request(`http://localhost${path}`, { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify(body) }))
+    return { status: res.status, body: await res.json() as T }
+  }
+
+  beforeEach(() => {
+    const db = createDatabase(sqlite({ name: ":memory:" }))
+    vi.stubGlobal("useDatabase", () => db)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("历史快照", async () => {
+    const historyTable = (await getHistoryTable())!
+    await historyTable.add("weibo", [item("a")], now - 2000)
+    await historyTable.add("weibo", [item("b")], now - 1000)
+    expect((await get(`/api/s/history?id=weibo&at=${now - 1500}`)).body).toEqual({
+      status: "cache",
+      id: "weibo",
+      updatedTime: now - 2000,
+      items: [item("a")],
+      times: [now - 2000, now - 1000],
+    })
+    expect((await get("/api/s/history?id=weibo")).body.items).toEqual([item("b")])
+    expect((await get("/api/s/history?id=weibo&at=yesterday")).status).toBe(500)
+    expect((await get("/api/s/history?id=unknown")).status).toBe(500)
+  })
+
+  it("父 id 重定向到第一个子源", async () => {
+    await (await getHistoryTable())!.add("bilibili-hot-search", [item("a")], now)
+    expect((await get("/api/s/history?id=bilibili")).body).toMatchObject({ id: "bilibili-hot-search", items: [item("a")] })
+  })
+
+  it("关闭历史时报错", async () => {
+    vi.stubEnv("ENABLE_HISTORY", "false")
+    expect((await get("/api/s/history?id=weibo")).status).toBe(500)
+  })
+
+  it("排名轨迹只给最热榜单", async () => {
+    const rankTable = (await getRankTable())!
+    await rankTable.add("weibo", [item("a"), item("b")], now - 1000)
+    await rankTable.add("weibo", [item("b"), item("a")], now)
+    expect((await get("/api/s/rank?id=weibo&item=a")).body).toEqual({
+      id: "weibo",
+      item: "a",
+      firstSeen: now - 1000,
+      lastSeen: now,
+      peak: 1,
+      duration: 1000,
+      points: [{ time: now - 1000, rank: 1 }, { time: now, rank: 2 }],
+    })
+    expect((await get("/api/s/rank?id=v2ex-share&item=a")).status).toBe(500)
+    expect((await get("/api/s/rank?id=weibo")).status).toBe(500)
+  })
+
+  it("搜索", async () => {
+    const searchTable = (await getSearchTable())!
+    await searchTable.add("weibo", [item("1")], now - 1000)
+    await searchTable.add("zhihu", [item("2")], now)
+    expect((await get<SearchResult[]>("/api/search?q=标题")).body.map(k => k.item.id)).toEqual(["2", "1"])
+    expect((await get<SearchResult[]>("/api/search?q=标题&sources=weibo,unknown")).body.map(k => k.source)).toEqual(["weibo"])
+    expect((await get("/api/search?q=标题&sources=unknown")).body).toEqual([])
+    expect((await get<SearchResult[]>(`/api/search?q=标题&since=${now - 500}`)).body.map(k => k.source)).toEqual(["zhihu"])
+    expect((await get("/api/search?q=%20")).body).toEqual([])
+    expect((await get("/api/search?q=标题&since=yesterday")).status).toBe(500)
+  })
+  it("webhook 不返回密钥", async () => {
+    const created = await post<Webhook>("/api/me/webhooks", { url: "https://93.184.216.34/hook", template: "dingtalk", sources: ["weibo"], secret: "SEC" })
+    expect(created.body).toMatchObject({ template: "dingtalk", hasSecret: true })
+    expect(created.body).not.toHaveProperty("secret")
+    const list = await get<Webhook[]>("/api/me/webhooks")
+    expect(list.body).toEqual([created.body])
+  })
+  it("源的 ETag 跟着状态变", async () => {
+    const cacheStore = (await getCacheStore())!
+    await cacheStore.set("weibo", [item("a")], { updated: now - 1000 })
+    const fresh = await request(new Request("http://localhost/api/s?id=weibo"))
+    const etag = fresh.headers.get("etag")!
+    expect(fresh.headers.get("cache-control")).toContain("public")
+    expect((await request(new Request("http://localhost/api/s?id=weibo", { headers: { "if-none-match": etag } }))).status).toBe(304)
+
+    // 过了 interval 变成 cache 状态，条目没变也不能 304
+    await cacheStore.set("weibo", [item("a")], { updated: now - sources.weibo.interval - 1000 })
+    const stale = await request(new Request("http://localhost/api/s?id=weibo", { headers: { "if-none-match": etag } }))
+    expect(stale.status).toBe(200)
+    expect(await stale.json()).toMatchObject({ status: "cache", items: [item("a")] })
+  })
+})
@@ -0,0 +1,36 @@
+import type { SourceID } from "@shared/types"
+import { resolveSource, resolveSourceID } from "#/fetcher"
+import { parseFeedPath, renderFeed, sourceName } from "#/feed"
+
+export default defineEventHandler(async (event) => {
+  const path = parseFeedPath(getRouterParam(event, "id"))
+  const id = path && resolveSourceID(path.name as SourceID)
+  if (!path || !id) throw createError({ statusCode: 404, message: "Feed not found" })
+  try {
+    const { response, updated } = await resolveSource(id, { event })
+    const url = getRequestURL(event)
+    const source = sources[id]
+    const body = renderFeed(path.format, {
+      title: `${sourceName(id)} - NewsNow`,
+      description: source.desc ?? `${sourceName(id)}${source.type === "hottest" ? "热榜" : "最新"}`,
+      home: source.home ?? url.origin,
+      self: url.href,
+      updated,
+    }, response.items.map(item => ({ source: id, item, updated })))
+
+    const age = Date.now() - updated
+    const notModified = handleCacheControl(event, {
+      etag: `W/"${await md5(body)}"`,
+      maxAge: Math.max(0, Math.floor((source.interval - age) / 1000)),
+    })
+    if (notModified) return null
+    setResponseHeader(event, "Content-Type", path.type)
+    return body
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
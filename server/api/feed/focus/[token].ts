@@ -0,0 +1,65 @@
+import type { PrimitiveMetadata, SourceID } from "@shared/types"
+import { UserTable } from "#/database/user"
+import { getFeedTokenTable } from "#/database/feed"
+import { getSourceResponse, resolveSourceID } from "#/fetcher"
+import { getSubscriptionTable } from "#/database/subscription"
+import { getFeedGetter } from "#/subscription"
+import type { FeedItem } from "#/feed"
+import { getItemDate, parseFeedPath, renderFeed } from "#/feed"
+
+const MaxItems = 100
+
+export default defineEventHandler(async (event) => {
+  const path = parseFeedPath(getRouterParam(event, "token"))
+  if (!path) throw createError({ statusCode: 404, message: "Feed not found" })
+  const feedTokenTable = await getFeedTokenTable()
+  const user = await feedTokenTable?.getUser(path.name)
+  if (!user) throw createError({ statusCode: 404, message: "Feed not found" })
+  try {
+    const { data } = await new UserTable(useDatabase()).getData(user)
+    const focus: SourceID[] = data ? (JSON.parse(data) as PrimitiveMetadata["data"]).focus ?? [] : []
+    // 订阅的 feed 源不在 sources 里，和 /api/s 一样按订阅地址拉取
+    const ids = [...new Set(focus.map(k => isFeedSourceID(k) ? k : resolveSourceID(k)).filter(Boolean) as SourceID[])]
+    const responses = await mapWithConcurrency(ids, 5, async (id) => {
+      try {
+        if (!isFeedSourceID(id)) return await getSourceResponse(id, { event })
+        const getter = await getFeedGetter(id)
+        if (getter) return await getSourceResponse(id, { event, getter })
+      } catch (e) {
+        logger.error(e)
+      }
+    })
+    const subscriptions = ids.some(isFeedSourceID) ? await (await getSubscriptionTable())?.getSubscriptions(user) : undefined
+    const names = new Map(subscriptions?.map(k => [k.id, k.title]))
+    const items: FeedItem[] = responses.flatMap((res) => {
+      if (!res) return []
+      const updated = new Date(res.updatedTime).getTime()
+      return res.items.map(item => ({ source: res.id, name: names.get(res.id), item, updated }))
+    })
+    items.sort((m, n) => getItemDate(n) - getItemDate(m))
+
+    const url = getRequestURL(event)
+    const body = renderFeed(path.format, {
+      title: "我的关注 - NewsNow",
+      description: "NewsNow 关注栏目中的源",
+      home: url.origin,
+      self: url.href,
+      updated: Math.max(0, ...items.map(k => k.updated)),
+    }, items.slice(0, MaxItems))
+
+    const notModified = handleCacheControl(event, {
+      etag: `W/"${await md5(body)}"`,
+      maxAge: 0,
+      private: true,
+    })
+    if (notModified) return null
+    setResponseHeader(event, "Content-Type", path.type)
+    return body
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -0,0 +1,5 @@
+import { getRSSHubStatus } from "#/rsshub"
+
+export default defineEventHandler(() => {
+  return getRSSHubStatus()
+})
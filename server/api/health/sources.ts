@@ -0,0 +1,34 @@
+import type { SourceHealth, SourceID } from "@shared/types"
+import { getHealthTable } from "#/database/health"
+import { getDriftTable } from "#/database/drift"
+
+// 统计最近 24 小时
+const HealthWindow = 24 * 60 * 60 * 1000
+
+export default defineEventHandler(async (): Promise<SourceHealth[]> => {
+  try {
+    const healthTable = await getHealthTable()
+    if (!healthTable) throw new Error("Health monitoring is disabled")
+    const since = Date.now() - HealthWindow
+    const summary = await healthTable.getSummary(since)
+    const drifts = await (await getDriftTable())?.getSummary(since)
+    const map = new Map(summary.map(k => [k.id, k]))
+    return typeSafeObjectEntries(sources)
+      .filter(([, source]) => !source.redirect)
+      .map(([id]: [SourceID, any]) => {
+        const health = map.get(id)
+        if (!health) return { id, total: 0, success: 0, latency: 0 }
+        return {
+          ...health,
+          uptime: health.total ? health.success / health.total : undefined,
+          drift: drifts?.get(id),
+        }
+      })
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
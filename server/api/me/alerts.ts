@@ -0,0 +1,43 @@
+import type { AlertRule, SourceID } from "@shared/types"
+import { getAlertTable } from "#/database/alert"
+
+const MaxRules = 20
+const MaxKeywords = 10
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const alertTable = await getAlertTable()
+    if (!alertTable) throw new Error("Alert is disabled, VAPID keys are not configured")
+    if (event.method === "GET") {
+      return await alertTable.getRules(user)
+    } else if (event.method === "POST") {
+      const body: { keywords?: string[], sources?: SourceID[] } = await readBody(event)
+      const keywords = [...new Set(body.keywords?.map(k => String(k).trim()).filter(k => k && k.length <= 50))]
+      if (!keywords.length || keywords.length > MaxKeywords) throw new Error(`Keywords should be 1 to ${MaxKeywords}`)
+      const rules = await alertTable.getRules(user)
+      if (rules.length >= MaxRules) throw new Error(`At most ${MaxRules} rules`)
+      const rule: AlertRule = {
+        id: randomUUID(),
+        keywords,
+        sources: [...new Set(body.sources?.filter(k => sources[k] && !sources[k].redirect))],
+        created: Date.now(),
+      }
+      await alertTable.addRule(user, rule)
+      return rule
+    } else if (event.method === "DELETE") {
+      const { id } = getQuery(event)
+      if (!id) throw new Error("Invalid rule id")
+      await alertTable.deleteRule(user, String(id))
+      return {
+        success: true,
+      }
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
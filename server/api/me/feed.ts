@@ -0,0 +1,20 @@
+import { getFeedTokenTable } from "#/database/feed"
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const feedTokenTable = await getFeedTokenTable()
+    if (!feedTokenTable) throw new Error("Not found database")
+    // POST 重新生成，旧地址失效
+    const token = event.method === "POST" ? await feedTokenTable.resetToken(user) : await feedTokenTable.getToken(user)
+    return {
+      token,
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -0,0 +1,34 @@
+import { getSubscriptionTable } from "#/database/subscription"
+import { MaxSubscriptions, resolveFeed } from "#/subscription"
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const subscriptionTable = await getSubscriptionTable()
+    if (!subscriptionTable) throw new Error("Not found database")
+    if (event.method === "GET") {
+      return await subscriptionTable.getSubscriptions(user)
+    } else if (event.method === "POST") {
+      const { url }: { url?: string } = await readBody(event)
+      if (!url || !/^https?:\/\//.test(url.trim())) throw new Error("Invalid feed url")
+      const subscriptions = await subscriptionTable.getSubscriptions(user)
+      if (subscriptions.length >= MaxSubscriptions) throw new Error(`At most ${MaxSubscriptions} feeds`)
+      const subscription = await resolveFeed(url.trim())
+      await subscriptionTable.add(user, [subscription])
+      return subscription
+    } else if (event.method === "DELETE") {
+      const { id } = getQuery(event)
+      if (!id) throw new Error("Invalid feed id")
+      await subscriptionTable.delete(user, String(id))
+      return {
+        success: true,
+      }
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -0,0 +1,37 @@
+import type { FeedSubscription } from "@shared/types"
+import { getSubscriptionTable } from "#/database/subscription"
+import { MaxSubscriptions, parseOPML, resolveFeed } from "#/subscription"
+
+/**
+ * 导入 OPML，解析不了的订阅跳过，返回成功导入的
+ */
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const subscriptionTable = await getSubscriptionTable()
+    if (!subscriptionTable) throw new Error("Not found database")
+    const { opml }: { opml?: string } = await readBody(event)
+    if (!opml) throw new Error("Empty opml")
+    const existing = new Set((await subscriptionTable.getSubscriptions(user)).map(k => k.url))
+    const outlines = parseOPML(opml).filter(k => !existing.has(k.url)).slice(0, Math.max(0, MaxSubscriptions - existing.size))
+    const res = await mapWithConcurrency(outlines, 5, async ({ url, title }) => {
+      try {
+        return await resolveFeed(url, title)
+      } catch (e) {
+        logger.warn(e)
+      }
+    })
+    const subscriptions = res.filter(Boolean) as FeedSubscription[]
+    await subscriptionTable.add(user, subscriptions)
+    return {
+      subscriptions,
+      failed: outlines.length - subscriptions.length,
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -0,0 +1,36 @@
+import type { WebPushSubscription } from "#/types"
+import { getAlertTable } from "#/database/alert"
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const vapid = getVAPIDKeys()
+    const alertTable = await getAlertTable()
+    if (!vapid || !alertTable) throw new Error("Alert is disabled, VAPID keys are not configured")
+    if (event.method === "GET") {
+      return {
+        publicKey: vapid.publicKey,
+      }
+    } else if (event.method === "POST") {
+      const subscription: WebPushSubscription = await readBody(event)
+      if (!subscription?.endpoint?.startsWith("https://") || !subscription.keys?.p256dh || !subscription.keys?.auth)
+        throw new Error("Invalid push subscription")
+      await alertTable.addSubscription(user, subscription)
+      return {
+        success: true,
+      }
+    } else if (event.method === "DELETE") {
+      const { endpoint }: { endpoint?: string } = await readBody(event)
+      if (endpoint) await alertTable.deleteSubscription(endpoint, user)
+      return {
+        success: true,
+      }
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
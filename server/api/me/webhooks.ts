@@ -0,0 +1,50 @@
+import type { SourceID, Webhook, WebhookTemplate } from "@shared/types"
+import { getWebhookTable } from "#/database/webhook"
+import { assertWebhookURL } from "#/webhook"
+
+const MaxWebhooks = 10
+const templates: WebhookTemplate[] = ["json", "slack", "dingtalk", "feishu", "wecom"]
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { id: user } = event.context.user
+    const webhookTable = await getWebhookTable()
+    if (!webhookTable) throw new Error("Webhook is disabled")
+    if (event.method === "GET") {
+      return await webhookTable.getWebhooks(user)
+    } else if (event.method === "POST") {
+      const body: Partial<Pick<Webhook, "url" | "template" | "sources" | "keywords" | "secret">> = await readBody(event)
+      if (!body.url) throw new Error("Invalid webhook url")
+      await assertWebhookURL(body.url)
+      const ids = [...new Set(body.sources?.filter(k => sources[k as SourceID] && !sources[k as SourceID].redirect))]
+      if (!ids.length) throw new Error("At least one source")
+      const webhooks = await webhookTable.getWebhooks(user)
+      if (webhooks.length >= MaxWebhooks) throw new Error(`At most ${MaxWebhooks} webhooks`)
+      const webhook: Webhook = {
+        id: randomUUID(),
+        url: body.url,
+        template: templates.includes(body.template!) ? body.template! : "json",
+        sources: ids,
+        keywords: [...new Set(body.keywords?.map(k => String(k).trim()).filter(Boolean))],
+        secret: body.secret?.trim() || undefined,
+        created: Date.now(),
+      }
+      await webhookTable.add(user, webhook)
+      const { secret: _, ...rest } = webhook
+      return { ...rest, hasSecret: !!webhook.secret }
+    } else if (event.method === "DELETE") {
+      const { id } = getQuery(event)
+      if (!id) throw new Error("Invalid webhook id")
+      await webhookTable.delete(user, String(id))
+      return {
+        success: true,
+      }
+    }
+  } catch (e) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -1,14 +1,39 @@
+import { fetchPicture, resizePicture, snapPictureHeight } from "#/image-proxy"
+import { getPictureCache } from "#/database/picture"
+
 export default defineEventHandler(async (event) => {
-  const { url: img, type = "encodeURIComponent" } = getQuery(event)
-  if (img) {
+  const { url: img, type = "encodeURIComponent", h } = getQuery(event)
+  if (!img) throw createError({ statusCode: 400, message: "Missing url" })
+  try {
     const url = type === "encodeURIComponent" ? decodeURIComponent(img as string) : decodeBase64URL(img as string)
-    return sendProxy(event, url, {
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Credentials": "*",
-        "Access-Control-Allow-Methods": "GET, HEAD, POST, PUT, OPTIONS",
-        "Access-Control-Allow-Headers": "*",
-      },
+    // 带 h 时按高度缩小，缓存也分开存
+    const height = snapPictureHeight(Number(h))
+    const key = await md5(`${url}|${height ?? ""}`)
+    const cache = await getPictureCache()
+    let picture = await cache?.get(key)
+    if (!picture) {
+      picture = await fetchPicture(url)
+      if (height) picture = await resizePicture(picture, height)
+      if (cache) {
+        const task = cache.set(key, picture)
+        if (event.context.waitUntil) event.context.waitUntil(task)
+        else await task
+      }
+    }
+    setResponseHeaders(event, {
+      "Content-Type": picture.type,
+      "Cache-Control": "public, max-age=86400, stale-while-revalidate=604800",
+      "Access-Control-Allow-Origin": "*",
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "default-src 'none'",
+    })
+    return picture.data
+  } catch (e: any) {
+    logger.error(e)
+    if (isError(e)) throw e
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
     })
   }
 })
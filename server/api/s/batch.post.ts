@@ -0,0 +1,26 @@
+import process from "node:process"
+import type { SourceID, SourceResponse } from "@shared/types"
+import { getSourceResponse, resolveSourceID } from "#/fetcher"
+
+export default defineEventHandler(async (event): Promise<SourceResponse[]> => {
+  try {
+    const { sources: _ }: { sources: SourceID[] } = await readBody(event)
+    const ids = [...new Set(_?.map(k => resolveSourceID(k)).filter(Boolean) as SourceID[])]
+    const concurrency = Number(process.env.BATCH_CONCURRENCY) || 5
+    const res = await mapWithConcurrency(ids, concurrency, async (id) => {
+      try {
+        return await getSourceResponse(id, { event })
+      } catch (e) {
+        // 单个失败不影响其他，客户端会单独再请求
+        logger.error(e)
+      }
+    })
+    return res.filter(Boolean) as SourceResponse[]
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
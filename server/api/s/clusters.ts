@@ -0,0 +1,32 @@
+import type { StoryCluster } from "@shared/types"
+import { getters } from "#/getters"
+import { getCacheStore } from "#/database/cache"
+import { clusterItems, hottestSourceIDs } from "#/cluster"
+
+// 热榜刷新间隔最短也是几分钟，聚类结果缓存一分钟
+const MemoTTL = 60 * 1000
+let memo: { time: number, clusters: StoryCluster[] } | undefined
+
+export default defineEventHandler(async (): Promise<StoryCluster[]> => {
+  try {
+    const now = Date.now()
+    if (memo && now - memo.time < MemoTTL) return memo.clusters
+    const cacheStore = await getCacheStore()
+    if (!cacheStore) throw new Error("Cache is disabled")
+    // 只用缓存，不主动去拉取
+    const ids = hottestSourceIDs().filter(id => getters[id])
+    const groups = await Promise.all(ids.map(async (id) => {
+      const cache = await cacheStore.get(id)
+      return { source: id, items: cache && now - cache.updated < TTL ? cache.items : [] }
+    }))
+    const clusters = clusterItems(groups)
+    memo = { time: now, clusters }
+    return clusters
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
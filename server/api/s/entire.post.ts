@@ -1,13 +1,13 @@
 import type { SourceID, SourceResponse } from "@shared/types"
-import { getCacheTable } from "#/database/cache"
+import { getCacheStore } from "#/database/cache"
 
 export default defineEventHandler(async (event) => {
   try {
     const { sources: _ }: { sources: SourceID[] } = await readBody(event)
-    const cacheTable = await getCacheTable()
+    const cacheStore = await getCacheStore()
     const ids = _?.filter(k => sources[k])
-    if (ids?.length && cacheTable) {
-      const caches = await cacheTable.getEntire(ids)
+    if (ids?.length && cacheStore) {
+      const caches = await cacheStore.getEntire(ids)
       const now = Date.now()
       return caches.map(cache => ({
         status: "cache",
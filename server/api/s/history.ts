@@ -0,0 +1,36 @@
+import type { SourceHistoryResponse, SourceID } from "@shared/types"
+import { HistoryRetention, getHistoryTable } from "#/database/history"
+
+export default defineEventHandler(async (event): Promise<SourceHistoryResponse> => {
+  try {
+    const query = getQuery(event)
+    let id = query.id as SourceID
+    if (!id || !sources[id]) throw new Error("Invalid source id")
+    const redirectID = sources[id].redirect
+    if (redirectID) id = redirectID
+
+    const at = query.at ? Number(query.at) : Date.now()
+    if (Number.isNaN(at)) throw new Error("Invalid time")
+
+    const historyTable = await getHistoryTable()
+    if (!historyTable) throw new Error("History is disabled")
+
+    const [snapshot, times] = await Promise.all([
+      historyTable.get(id, at),
+      historyTable.getTimes(id, Date.now() - HistoryRetention),
+    ])
+    return {
+      status: "cache",
+      id,
+      updatedTime: snapshot?.updated ?? at,
+      items: snapshot?.items ?? [],
+      times,
+    }
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -1,85 +1,38 @@
 import type { SourceID, SourceResponse } from "@shared/types"
-import { getters } from "#/getters"
-import { getCacheTable } from "#/database/cache"
-import type { CacheInfo } from "#/types"
+import { resolveSource, resolveSourceID } from "#/fetcher"
+import { getFeedGetter } from "#/subscription"
+import { FederatedHeader } from "#/upstream"
 
-export default defineEventHandler(async (event): Promise<SourceResponse> => {
+export default defineEventHandler(async (event): Promise<SourceResponse | null> => {
   try {
     const query = getQuery(event)
     const latest = query.latest !== undefined && query.latest !== "false"
-    let id = query.id as SourceID
-    const isValid = (id: SourceID) => !id || !sources[id] || !getters[id]
+    const feed = isFeedSourceID(String(query.id)) ? await getFeedGetter(query.id as SourceID) : undefined
+    const id = feed ? query.id as SourceID : resolveSourceID(query.id as SourceID)
+    if (!id) throw new Error("Invalid source id")
 
-    if (isValid(id)) {
-      const redirectID = sources?.[id]?.redirect
-      if (redirectID) id = redirectID
-      if (isValid(id)) throw new Error("Invalid source id")
-    }
-
-    const cacheTable = await getCacheTable()
-    // Date.now() in Cloudflare Worker will not update throughout the entire runtime.
-    const now = Date.now()
-    let cache: CacheInfo | undefined
-    if (cacheTable) {
-      cache = await cacheTable.get(id)
-      if (cache) {
-      // if (cache) {
-        // interval 刷新间隔，对于缓存失效也要执行的。本质上表示本来内容更新就很慢，这个间隔内可能内容压根不会更新。
-        // 默认 10 分钟，是低于 TTL 的，但部分 Source 的更新间隔会超过 TTL，甚至有的一天更新一次。
-        if (now - cache.updated < sources[id].interval) {
-          return {
-            status: "success",
-            id,
-            updatedTime: now,
-            items: cache.items,
-          }
-        }
-
-        // 而 TTL 缓存失效时间，在时间范围内，就算内容更新了也要用这个缓存。
-        // 复用缓存是不会更新时间的。
-        if (now - cache.updated < TTL) {
-          // 有 latest
-          // 没有 latest，但服务器禁止登录
-
-          // 没有 latest
-          // 有 latest，服务器可以登录但没有登录
-          if (!latest || (!event.context.disabledLogin && !event.context.user)) {
-            return {
-              status: "cache",
-              id,
-              updatedTime: cache.updated,
-              items: cache.items,
-            }
-          }
-        }
-      }
-    }
+    // 有 latest，并且服务器禁止登录或者已经登录，才会跳过 TTL 内的缓存
+    const forceLatest = latest && (!!event.context.disabledLogin || !!event.context.user)
+    const { response, updated } = await resolveSource(id, {
+      latest: forceLatest,
+      event,
+      getter: feed,
+      federated: !!getHeader(event, FederatedHeader),
+    })
 
-    try {
-      const newData = (await getters[id]()).slice(0, 30)
-      if (cacheTable && newData.length) {
-        if (event.context.waitUntil) event.context.waitUntil(cacheTable.set(id, newData))
-        else await cacheTable.set(id, newData)
-      }
-      logger.success(`fetch ${id} latest`)
-      return {
-        status: "success",
-        id,
-        updatedTime: now,
-        items: newData,
-      }
-    } catch (e) {
-      if (cache!) {
-        return {
-          status: "cache",
-          id,
-          updatedTime: cache.updated,
-          items: cache.items,
-        }
-      } else {
-        throw e
-      }
-    }
+    // interval 内服务端不会去拉取，内容不会变；之后到 TTL 之前可以先用旧的，同时后台重新验证
+    const age = Date.now() - updated
+    const seconds = (ms: number) => Math.max(0, Math.floor(ms / 1000))
+    const notModified = handleCacheControl(event, {
+      // 状态、熔断和上游变了也要让客户端重新拿。interval 内 updatedTime 是请求时间，用缓存时间代替，不然永远不命中
+      etag: `W/"${await md5(JSON.stringify([response.status, updated, response.breaker, response.upstream, response.items]))}"`,
+      maxAge: forceLatest ? 0 : seconds((sources[id]?.interval ?? Interval) - age),
+      staleWhileRevalidate: forceLatest ? 0 : seconds(TTL - age),
+      // 订阅源是某个用户自己加的，不给 CDN 缓存
+      private: forceLatest || !!feed,
+    })
+    if (notModified) return null
+    return response
   } catch (e: any) {
     logger.error(e)
     throw createError({
@@ -0,0 +1,30 @@
+import type { RankTrajectoryResponse, SourceID } from "@shared/types"
+import { RankRetention, getRankTable } from "#/database/rank"
+
+export default defineEventHandler(async (event): Promise<RankTrajectoryResponse> => {
+  try {
+    const query = getQuery(event)
+    let id = query.id as SourceID
+    const item = query.item as string
+    if (!id || !sources[id]) throw new Error("Invalid source id")
+    const redirectID = sources[id].redirect
+    if (redirectID) id = redirectID
+    if (sources[id].type !== "hottest") throw new Error(`${id} is not a hottest source`)
+    if (!item) throw new Error("Invalid item id")
+
+    const rankTable = await getRankTable()
+    if (!rankTable) throw new Error("History is disabled")
+
+    const trajectory = await rankTable.getTrajectory(id, item, Date.now() - RankRetention)
+    return {
+      id,
+      ...trajectory,
+    }
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
@@ -0,0 +1,25 @@
+import type { SearchResult, SourceID } from "@shared/types"
+import { getSearchTable } from "#/database/search"
+
+export default defineEventHandler(async (event): Promise<SearchResult[]> => {
+  try {
+    const query = getQuery(event)
+    const q = (query.q as string | undefined)?.trim()
+    if (!q) return []
+    const ids = (query.sources as string | undefined)?.split(",").filter(k => sources[k as SourceID]) as SourceID[] | undefined
+    // 传了源但一个都不认识，不能当成不过滤
+    if (query.sources && !ids?.length) return []
+    const since = query.since ? Number(query.since) : undefined
+    if (since !== undefined && Number.isNaN(since)) throw new Error("Invalid time")
+
+    const searchTable = await getSearchTable()
+    if (!searchTable) throw new Error("Search is disabled")
+    return await searchTable.search(q, { sources: ids, since })
+  } catch (e: any) {
+    logger.error(e)
+    throw createError({
+      statusCode: 500,
+      message: e instanceof Error ? e.message : "Internal Server Error",
+    })
+  }
+})
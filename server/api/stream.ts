@@ -0,0 +1,58 @@
+import type { SourceID, SourceResponse } from "@shared/types"
+import { resolveSourceID } from "#/fetcher"
+import { getCacheStore } from "#/database/cache"
+import { subscribe } from "#/stream"
+
+// 多实例部署时别的实例拉取的数据收不到通知，隔一段时间查一次缓存，顺便保活
+const PollInterval = 30 * 1000
+const MaxSources = 100
+
+export default defineEventHandler(async (event) => {
+  const query = getQuery(event)
+  const ids = [...new Set(String(query.ids ?? "").split(",").map(k => isFeedSourceID(k) ? k : resolveSourceID(k as SourceID)).filter(Boolean) as SourceID[])]
+  if (!ids.length) throw createError({ statusCode: 400, message: "Invalid source ids" })
+  if (ids.length > MaxSources) throw createError({ statusCode: 400, message: `Too many sources, max ${MaxSources}` })
+
+  const cacheStore = await getCacheStore()
+  // 已经推送过的时间，客户端连上时已经有当前缓存了，不用再推
+  const sent = new Map<SourceID, number>()
+  if (cacheStore) {
+    await Promise.all(ids.map(async (id) => {
+      const cache = await cacheStore.get(id)
+      if (cache) sent.set(id, cache.updated)
+    }))
+  }
+
+  const eventStream = createEventStream(event)
+  const push = async (response: SourceResponse) => {
+    const updated = new Date(response.updatedTime).getTime()
+    if ((sent.get(response.id) ?? 0) >= updated) return
+    sent.set(response.id, updated)
+    await eventStream.push({ event: "source", data: JSON.stringify(response) })
+  }
+
+  const unsubscribe = subscribe(ids, response => push(response).catch(e => logger.error(e)))
+  const timer = setInterval(async () => {
+    try {
+      if (cacheStore) {
+        for (const id of ids) {
+          const cache = await cacheStore.get(id)
+          if (cache) await push({ status: "success", id, updatedTime: cache.updated, items: cache.items, upstream: cache.upstream })
+        }
+      }
+      await eventStream.push({ event: "ping", data: String(Date.now()) })
+    } catch (e) {
+      logger.error(e)
+    }
+  }, PollInterval)
+
+  eventStream.onClosed(async () => {
+    clearInterval(timer)
+    unsubscribe()
+    await eventStream.close()
+  })
+
+  // 先推一条，让连接立即建立
+  eventStream.push({ event: "ping", data: String(Date.now()) }).catch(e => logger.error(e))
+  return eventStream.send()
+})
@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { allowRequest, getBreaker, recordFailure, recordSuccess } from "./breaker"
+
+describe("breaker", () => {
+  const id = "weibo"
+  const now = 1_000_000
+  const trip = () => [1, 2, 3].forEach(() => recordFailure(id, now))
+
+  // 熔断状态存在模块里，每个用例从关闭开始
+  beforeEach(() => recordSuccess(id))
+
+  it("连续失败到阈值才熔断", () => {
+    recordFailure(id, now)
+    recordFailure(id, now)
+    expect(getBreaker(id, now)).toBeUndefined()
+    recordFailure(id, now)
+    expect(getBreaker(id, now)).toEqual({ state: "open", failures: 3, retryAt: now + 30 * 1000 })
+    expect(allowRequest(id, now)).toBe(false)
+  })
+
+  it("到时间后 half-open，试探失败退避翻倍", () => {
+    trip()
+    const retryAt = now + 30 * 1000
+    expect(getBreaker(id, retryAt)?.state).toBe("half-open")
+    expect(allowRequest(id, retryAt)).toBe(true)
+    recordFailure(id, retryAt)
+    expect(getBreaker(id, retryAt)).toEqual({ state: "open", failures: 4, retryAt: retryAt + 60 * 1000 })
+  })
+
+  it("成功后关闭", () => {
+    trip()
+    recordSuccess(id)
+    expect(getBreaker(id, now)).toBeUndefined()
+    expect(allowRequest(id, now)).toBe(true)
+  })
+})
@@ -0,0 +1,51 @@
+import type { SourceBreaker, SourceID } from "@shared/types"
+
+interface BreakerState {
+  failures: number
+  backoff: number
+  retryAt: number
+}
+
+// 连续失败多少次后熔断
+const Threshold = 3
+const BaseBackoff = 30 * 1000
+const MaxBackoff = 30 * 60 * 1000
+
+const states = new Map<SourceID, BreakerState>()
+
+/**
+ * 熔断中返回熔断信息，否则返回 undefined。
+ * 到了 retryAt 就是 half-open，允许一次试探请求。
+ */
+export function getBreaker(id: SourceID, now = Date.now()): SourceBreaker | undefined {
+  const state = states.get(id)
+  if (!state || state.failures < Threshold) return
+  return {
+    state: now >= state.retryAt ? "half-open" : "open",
+    failures: state.failures,
+    retryAt: state.retryAt,
+  }
+}
+
+export function allowRequest(id: SourceID, now = Date.now()) {
+  return getBreaker(id, now)?.state !== "open"
+}
+
+export function recordSuccess(id: SourceID) {
+  if (states.has(id)) {
+    states.delete(id)
+    logger.info(`breaker of ${id} closed`)
+  }
+}
+
+export function recordFailure(id: SourceID, now = Date.now()) {
+  const state = states.get(id) ?? { failures: 0, backoff: 0, retryAt: 0 }
+  state.failures++
+  if (state.failures >= Threshold) {
+    // 每次试探失败，退避时间翻倍
+    state.backoff = state.backoff ? Math.min(state.backoff * 2, MaxBackoff) : BaseBackoff
+    state.retryAt = now + state.backoff
+    logger.warn(`breaker of ${id} opened, retry after ${state.backoff / 1000}s`)
+  }
+  states.set(id, state)
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+import { bigrams, clusterItems, isSimilar, mergeHottest, normalizeTitle, parseHeat } from "./cluster"
+
+describe("cluster", () => {
+  it("标题归一化", () => {
+    expect(normalizeTitle("#梅西 宣布退役！#")).toBe("梅西宣布退役")
+    expect(normalizeTitle("ＡＢＣ，Def")).toBe("abcdef")
+  })
+
+  it("相近的标题", () => {
+    expect(isSimilar(bigrams("梅西宣布退役"), bigrams("梅西宣布退役了"))).toBe(true)
+    expect(isSimilar(bigrams("梅西宣布退役"), bigrams("官宣！梅西宣布从国家队退役"))).toBe(true)
+    expect(isSimilar(bigrams("梅西宣布退役"), bigrams("C罗宣布新赛季目标"))).toBe(false)
+  })
+
+  it("只聚合不同平台的", () => {
+    const item = (id: string, title: string) => ({ id, title, url: id })
+    const clusters = clusterItems([
+      { source: "weibo", items: [item("1", "梅西宣布退役"), item("2", "今天天气不错")] },
+      { source: "zhihu", items: [item("3", "如何看待梅西宣布退役？")] },
+      { source: "baidu", items: [item("4", "今天天气不错哦")] },
+      { source: "toutiao", items: [item("5", "某地发生地震")] },
+    ])
+    expect(clusters.map(k => k.sources.sort())).toEqual([["weibo", "zhihu"], ["baidu", "weibo"]])
+  })
+
+  it("同一平台的不聚合", () => {
+    const clusters = clusterItems([
+      { source: "weibo", items: [{ id: "1", title: "梅西宣布退役", url: "" }, { id: "2", title: "梅西宣布退役了", url: "" }] },
+    ])
+    expect(clusters).toEqual([])
+  })
+})
+
+describe("mergeHottest", () => {
+  it("解析热度", () => {
+    expect(parseHeat("1,234 万热度")).toBe(12340000)
+    expect(parseHeat("2亿热度")).toBe(2e8)
+    expect(parseHeat("热门")).toBeUndefined()
+    expect(parseHeat(false)).toBeUndefined()
+  })
+
+  it("上榜平台多的排在前面", () => {
+    const item = (id: string, title: string) => ({ id, title, url: id })
+    const merged = mergeHottest([
+      { source: "weibo", items: [item("1", "今天天气不错"), item("2", "梅西宣布退役")] },
+      { source: "zhihu", items: [item("3", "如何看待梅西宣布退役？")] },
+      { source: "baidu", items: [item("4", "某地发生地震")] },
+    ])
+    expect(merged.map(k => k.id)).toEqual(["zhihu-3", "weibo-1", "baidu-4"])
+    expect(merged[0].extra?.info).toBe("2 个平台")
+  })
+})
@@ -0,0 +1,166 @@
+import type { NewsItem, SourceID, StoryCluster } from "@shared/types"
+
+interface SourceItems {
+  source: SourceID
+  items: NewsItem[]
+}
+
+// dice 系数达到这个值就算同一事件
+const Threshold = 0.5
+// 短标题被长标题包含时 dice 偏低，用重叠系数补上
+const OverlapThreshold = 0.8
+const MinOverlapSize = 4
+
+/**
+ * 去掉空白、标点和符号，全角转半角，英文转小写
+ */
+export function normalizeTitle(title: string) {
+  return title.normalize("NFKC").toLowerCase().replace(/[\s\p{P}\p{S}]/gu, "")
+}
+
+/**
+ * 中文没有分词，用相邻两个字
+ */
+export function bigrams(title: string) {
+  const s = normalizeTitle(title)
+  const set = new Set<string>()
+  if (s.length < 2) {
+    if (s) set.add(s)
+    return set
+  }
+  for (let i = 0; i < s.length - 1; i++) set.add(s.slice(i, i + 2))
+  return set
+}
+
+export function isSimilar(a: Set<string>, b: Set<string>, shared?: number) {
+  if (!a.size || !b.size) return false
+  shared ??= [...a].filter(k => b.has(k)).length
+  const min = Math.min(a.size, b.size)
+  return (2 * shared) / (a.size + b.size) >= Threshold
+    || (min >= MinOverlapSize && shared / min >= OverlapThreshold)
+}
+
+// 子源算同一个平台
+const platformOf = (id: SourceID) => id.split("-")[0]
+
+/**
+ * 合成的源，数据来自其他热榜，自己不再参与聚类和合并
+ */
+export const syntheticSources: SourceID[] = ["trending"]
+
+export function hottestSourceIDs() {
+  return typeSafeObjectEntries(sources)
+    .filter(([id, source]) => source.type === "hottest" && !source.redirect && !syntheticSources.includes(id))
+    .map(([id]) => id)
+}
+
+/**
+ * 把不同平台上标题相近的条目分到一组，没有相似条目的自己一组
+ */
+function groupItems(groups: SourceItems[]) {
+  const entries = groups.flatMap(({ source, items }) => items.map(item => ({
+    source,
+    item,
+    platform: platformOf(source),
+    grams: bigrams(item.title),
+  })))
+
+  // 并查集
+  const parent = entries.map((_, i) => i)
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]))
+
+  // 倒排索引，只比较有共同片段的
+  const index = new Map<string, number[]>()
+  entries.forEach(({ grams }, i) => {
+    const shared = new Map<number, number>()
+    grams.forEach((gram) => {
+      index.get(gram)?.forEach((j) => {
+        if (entries[j].platform !== entries[i].platform) shared.set(j, (shared.get(j) ?? 0) + 1)
+      })
+      if (!index.has(gram)) index.set(gram, [])
+      index.get(gram)!.push(i)
+    })
+    shared.forEach((count, j) => {
+      if (isSimilar(grams, entries[j].grams, count)) parent[find(i)] = find(j)
+    })
+  })
+
+  const clusters = new Map<number, typeof entries>()
+  entries.forEach((entry, i) => {
+    const root = find(i)
+    if (!clusters.has(root)) clusters.set(root, [])
+    clusters.get(root)!.push(entry)
+  })
+
+  return [...clusters.values()]
+}
+
+/**
+ * 把不同平台上标题相近的条目聚成一个事件，只返回跨平台的
+ */
+export function clusterItems(groups: SourceItems[]): StoryCluster[] {
+  return groupItems(groups)
+    .filter(k => new Set(k.map(e => e.platform)).size > 1)
+    .map(k => ({
+      title: k[0].item.title,
+      sources: [...new Set(k.map(e => e.source))],
+      items: k.map(({ source, item }) => ({ source, item })),
+    }))
+    .sort((m, n) => n.sources.length - m.sources.length)
+}
+
+/**
+ * 从 "1234 万热度" 这样的信息里取出热度
+ */
+export function parseHeat(info?: string | false) {
+  const match = info && info.replace(/[,\s]/g, "").match(/([\d.]+)([万亿])?热度/)
+  if (!match) return
+  const n = Number(match[1]) * (match[2] === "亿" ? 1e8 : match[2] === "万" ? 1e4 : 1)
+  return Number.isNaN(n) ? undefined : n
+}
+
+/**
+ * 合并各平台热榜。名次和热度在平台内归一化到 0-1，
+ * 同一事件取每个平台最高的分数相加，上榜平台越多越靠前。
+ */
+export function mergeHottest(groups: SourceItems[]): NewsItem[] {
+  const scores = new Map<NewsItem, number>()
+  groups.forEach(({ items }) => {
+    const heats = items.map(item => parseHeat(item.extra?.info))
+    const maxHeat = Math.max(0, ...heats.map(k => k ?? 0))
+    items.forEach((item, i) => {
+      const rank = 1 - i / items.length
+      const heat = heats[i]
+      scores.set(item, heat !== undefined && maxHeat ? (rank + heat / maxHeat) / 2 : rank)
+    })
+  })
+
+  return groupItems(groups)
+    .map((entries) => {
+      const best = new Map<string, typeof entries[number]>()
+      entries.forEach((entry) => {
+        const prev = best.get(entry.platform)
+        if (!prev || scores.get(prev.item)! < scores.get(entry.item)!) best.set(entry.platform, entry)
+      })
+      const tops = [...best.values()].sort((m, n) => scores.get(n.item)! - scores.get(m.item)!)
+      return {
+        tops,
+        score: tops.reduce((sum, k) => sum + scores.get(k.item)!, 0),
+      }
+    })
+    .sort((m, n) => n.score - m.score)
+    .map(({ tops }) => {
+      const { source, item } = tops[0]
+      const names = tops.map(k => sources[k.source]?.name ?? k.source)
+      return {
+        id: `${source}-${item.id}`,
+        title: item.title,
+        url: item.url,
+        mobileUrl: item.mobileUrl,
+        extra: {
+          info: tops.length > 1 ? `${tops.length} 个平台` : names[0],
+          hover: names.join("、"),
+        },
+      }
+    })
+}
@@ -0,0 +1,160 @@
+import process from "node:process"
+import type { AlertRule } from "@shared/types"
+import type { Database } from "db0"
+import type { WebPushSubscription } from "#/types"
+
+interface RuleRow {
+  id: string
+  user: string
+  keywords: string
+  sources: string
+  created: number
+}
+
+interface SubscriptionRow {
+  endpoint: string
+  p256dh: string
+  auth: string
+}
+
+// 推送过的条目记录保留 7 天，避免重复提醒
+const SentTTL = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * 用户的关键词提醒规则、Web Push 订阅和推送记录
+ */
+export class AlertTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS alert_rule (
+        id TEXT PRIMARY KEY,
+        user TEXT,
+        keywords TEXT,
+        sources TEXT,
+        created INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_alert_rule_user ON alert_rule(user);
+    `).run()
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS push_subscription (
+        endpoint TEXT PRIMARY KEY,
+        user TEXT,
+        p256dh TEXT,
+        auth TEXT,
+        created INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS alert_sent (
+        rule TEXT,
+        item TEXT,
+        created INTEGER,
+        PRIMARY KEY (rule, item)
+      );
+    `).run()
+    logger.success(`init alert table`)
+  }
+
+  private async all<T>(sql: string, ...params: any[]) {
+    const res = await this.db.prepare(sql).all(...params) as any
+    // cloudflare d1 .all() will return { results }
+    return (res.results ?? res ?? []) as T[]
+  }
+
+  private toRule(row: RuleRow): AlertRule {
+    return {
+      id: row.id,
+      keywords: JSON.parse(row.keywords),
+      sources: JSON.parse(row.sources),
+      created: row.created,
+    }
+  }
+
+  async getRules(user: string) {
+    const rows = await this.all<RuleRow>(`SELECT * FROM alert_rule WHERE user = ? ORDER BY created DESC`, user)
+    return rows.map(row => this.toRule(row))
+  }
+
+  /**
+   * 所有用户的规则，新数据入库时用来匹配
+   */
+  async getAllRules() {
+    const rows = await this.all<RuleRow>(`SELECT * FROM alert_rule`)
+    return rows.map(row => ({ user: row.user, rule: this.toRule(row) }))
+  }
+
+  async addRule(user: string, { id, keywords, sources, created }: AlertRule) {
+    await this.db.prepare(
+      `INSERT INTO alert_rule (id, user, keywords, sources, created) VALUES (?, ?, ?, ?, ?)`,
+    ).run(id, user, JSON.stringify(keywords), JSON.stringify(sources), created)
+    logger.success(`add alert rule ${id} of ${user}`)
+  }
+
+  async deleteRule(user: string, id: string) {
+    await this.db.prepare(`DELETE FROM alert_rule WHERE user = ? AND id = ?`).run(user, id)
+    await this.db.prepare(`DELETE FROM alert_sent WHERE rule = ?`).run(id)
+    logger.success(`delete alert rule ${id} of ${user}`)
+  }
+
+  async addSubscription(user: string, { endpoint, keys }: WebPushSubscription) {
+    await this.db.prepare(`
+      INSERT INTO push_subscription (endpoint, user, p256dh, auth, created) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(endpoint) DO UPDATE SET user = excluded.user, p256dh = excluded.p256dh, auth = excluded.auth
+    `).run(endpoint, user, keys.p256dh, keys.auth, Date.now())
+    logger.success(`add push subscription of ${user}`)
+  }
+
+  async deleteSubscription(endpoint: string, user?: string) {
+    if (user) await this.db.prepare(`DELETE FROM push_subscription WHERE endpoint = ? AND user = ?`).run(endpoint, user)
+    else await this.db.prepare(`DELETE FROM push_subscription WHERE endpoint = ?`).run(endpoint)
+  }
+
+  async getSubscriptions(user: string): Promise<WebPushSubscription[]> {
+    const rows = await this.all<SubscriptionRow>(`SELECT endpoint, p256dh, auth FROM push_subscription WHERE user = ?`, user)
+    return rows.map(row => ({ endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } }))
+  }
+
+  /**
+   * 返回还没推送过的条目
+   */
+  async getUnsent(rule: string, items: string[]) {
+    if (!items.length) return []
+    const sent = await this.all<{ item: string }>(
+      `SELECT item FROM alert_sent WHERE rule = ? AND item IN (${items.map(() => "?").join(",")})`,
+      rule,
+      ...items,
+    )
+    const sentSet = new Set(sent.map(k => k.item))
+    return items.filter(k => !sentSet.has(k))
+  }
+
+  /**
+   * 推送成功后再记录，没推出去的下次还能推
+   */
+  async markSent(rule: string, items: string[], now = Date.now()) {
+    for (const item of items) {
+      await this.db.prepare(`INSERT OR IGNORE INTO alert_sent (rule, item, created) VALUES (?, ?, ?)`).run(rule, item, now)
+    }
+    await this.db.prepare(`DELETE FROM alert_sent WHERE created < ?`).run(now - SentTTL)
+  }
+}
+
+export async function getAlertTable() {
+  try {
+    // 没有配置 VAPID 就没法推送
+    if (!getVAPIDKeys()) return
+    const db = useDatabase()
+    const alertTable = new AlertTable(db)
+    if (process.env.INIT_TABLE !== "false") await alertTable.init()
+    return alertTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
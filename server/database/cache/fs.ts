@@ -0,0 +1,52 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import type { NewsItem, SourceID } from "@shared/types"
+import type { CacheInfo, CacheOption, CacheStore } from "#/types"
+
+/**
+ * 每个源一个 json 文件
+ */
+export class FSCache implements CacheStore {
+  private base
+  constructor(base: string) {
+    this.base = base
+  }
+
+  async init() {
+    await mkdir(this.base, { recursive: true })
+    logger.success(`init cache dir ${this.base}`)
+  }
+
+  private path(key: string) {
+    return join(this.base, `${encodeURIComponent(key)}.json`)
+  }
+
+  async set(key: string, value: NewsItem[], { updated = Date.now(), upstream }: CacheOption = {}) {
+    const cache: CacheInfo = {
+      id: key as SourceID,
+      updated,
+      items: value,
+      upstream,
+    }
+    await writeFile(this.path(key), JSON.stringify(cache))
+    logger.success(`set ${key} cache`)
+  }
+
+  async get(key: string): Promise<CacheInfo | undefined> {
+    try {
+      const cache = JSON.parse(await readFile(this.path(key), "utf-8")) as CacheInfo
+      logger.success(`get ${key} cache`)
+      return cache
+    } catch {
+      // 文件不存在
+    }
+  }
+
+  async getEntire(keys: string[]) {
+    return (await Promise.all(keys.map(k => this.get(k)))).filter(Boolean) as CacheInfo[]
+  }
+
+  async delete(key: string) {
+    await rm(this.path(key), { force: true })
+  }
+}
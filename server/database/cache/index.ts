@@ -0,0 +1,49 @@
+import process from "node:process"
+import { SQLCache } from "./sql"
+import { MemoryCache } from "./memory"
+import { FSCache } from "./fs"
+import { KVCache } from "./kv"
+import type { CacheStore } from "#/types"
+
+export { SQLCache, MemoryCache, FSCache, KVCache }
+
+type CacheDriver = "sql" | "memory" | "fs" | "kv"
+
+// 进程内的缓存要在请求之间共用
+let memoryCache: MemoryCache | undefined
+// 初始化失败过就不再尝试，免得每个请求都报错
+let fallback = false
+
+function useMemoryCache() {
+  if (!memoryCache) memoryCache = new MemoryCache(Number(process.env.CACHE_MAX) || undefined)
+  return memoryCache
+}
+
+export async function getCacheStore(): Promise<CacheStore | undefined> {
+  if (process.env.ENABLE_CACHE === "false") return
+  const driver = (process.env.CACHE_DRIVER || "sql") as CacheDriver
+  if (fallback) return useMemoryCache()
+  try {
+    switch (driver) {
+      case "memory":
+        return useMemoryCache()
+      case "fs": {
+        const fsCache = new FSCache(process.env.CACHE_DIR || ".data/cache")
+        if (process.env.INIT_TABLE !== "false") await fsCache.init()
+        return fsCache
+      }
+      case "kv":
+        return new KVCache(useStorage("sources"))
+      default: {
+        const cacheTable = new SQLCache(useDatabase())
+        if (process.env.INIT_TABLE !== "false") await cacheTable.init()
+        return cacheTable
+      }
+    }
+  } catch (e) {
+    // 比如 vercel 没有数据库，退回到进程内缓存
+    logger.error(`failed to init ${driver} cache, fallback to memory `, e)
+    fallback = true
+    return useMemoryCache()
+  }
+}
@@ -0,0 +1,40 @@
+import type { NewsItem, SourceID } from "@shared/types"
+import type { CacheInfo, CacheOption, CacheStore } from "#/types"
+
+/**
+ * 基于 unstorage，具体用什么 KV 由 nitro.config.ts 中 storage 的挂载决定
+ */
+export class KVCache implements CacheStore {
+  private storage
+  constructor(storage: ReturnType<typeof useStorage>) {
+    this.storage = storage
+  }
+
+  async set(key: string, value: NewsItem[], { updated = Date.now(), upstream }: CacheOption = {}) {
+    const cache: CacheInfo = {
+      id: key as SourceID,
+      updated,
+      items: value,
+      upstream,
+    }
+    await this.storage.setItem(key, cache)
+    logger.success(`set ${key} cache`)
+  }
+
+  async get(key: string) {
+    const cache = await this.storage.getItem<CacheInfo>(key)
+    if (cache) {
+      logger.success(`get ${key} cache`)
+      return cache
+    }
+  }
+
+  async getEntire(keys: string[]) {
+    const caches = await this.storage.getItems<CacheInfo>(keys)
+    return caches.map(k => k.value).filter(Boolean) as CacheInfo[]
+  }
+
+  async delete(key: string) {
+    await this.storage.removeItem(key)
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+import { MemoryCache } from "./memory"
+
+describe("memoryCache", () => {
+  const item = { id: 1, title: "title", url: "https://example.com" }
+
+  it("超出容量时淘汰最久没用过的", async () => {
+    const cache = new MemoryCache(2)
+    await cache.set("a", [item])
+    await cache.set("b", [item])
+    await cache.get("a")
+    await cache.set("c", [item])
+    expect(await cache.get("b")).toBeUndefined()
+    expect((await cache.getEntire(["a", "b", "c"])).map(k => k.id)).toEqual(["a", "c"])
+  })
+
+  it("删除", async () => {
+    const cache = new MemoryCache()
+    await cache.set("a", [item])
+    await cache.delete("a")
+    expect(await cache.get("a")).toBeUndefined()
+  })
+
+  it("保存上游来源和更新时间", async () => {
+    const cache = new MemoryCache()
+    const upstream = { instance: "https://peer.com", updatedTime: 1000 }
+    await cache.set("a", [item], { updated: 1000, upstream })
+    expect(await cache.get("a")).toMatchObject({ updated: 1000, upstream })
+  })
+})
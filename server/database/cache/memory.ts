@@ -0,0 +1,46 @@
+import type { NewsItem, SourceID } from "@shared/types"
+import type { CacheInfo, CacheOption, CacheStore } from "#/types"
+
+/**
+ * 进程内 LRU，重启即丢失，适合没有数据库的部署
+ */
+export class MemoryCache implements CacheStore {
+  private map = new Map<string, CacheInfo>()
+  private max
+  constructor(max = 500) {
+    this.max = max
+  }
+
+  async set(key: string, value: NewsItem[], { updated = Date.now(), upstream }: CacheOption = {}) {
+    // Map 按插入顺序遍历，先删再插就挪到了最后
+    this.map.delete(key)
+    this.map.set(key, {
+      id: key as SourceID,
+      updated,
+      items: value,
+      upstream,
+    })
+    if (this.map.size > this.max) {
+      this.map.delete(this.map.keys().next().value!)
+    }
+    logger.success(`set ${key} cache`)
+  }
+
+  async get(key: string) {
+    const cache = this.map.get(key)
+    if (cache) {
+      this.map.delete(key)
+      this.map.set(key, cache)
+      logger.success(`get ${key} cache`)
+    }
+    return cache
+  }
+
+  async getEntire(keys: string[]) {
+    return keys.map(k => this.map.get(k)).filter(Boolean) as CacheInfo[]
+  }
+
+  async delete(key: string) {
+    this.map.delete(key)
+  }
+}
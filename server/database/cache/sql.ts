@@ -0,0 +1,74 @@
+import type { NewsItem } from "@shared/types"
+import type { Database } from "db0"
+import type { CacheInfo, CacheOption, CacheRow, CacheStore } from "#/types"
+
+function toCacheInfo(row: CacheRow): CacheInfo {
+  return {
+    id: row.id,
+    updated: row.updated,
+    items: JSON.parse(row.data) as NewsItem[],
+    upstream: row.upstream ? JSON.parse(row.upstream) : undefined,
+  }
+}
+
+export class SQLCache implements CacheStore {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS cache (
+        id TEXT PRIMARY KEY,
+        updated INTEGER,
+        data TEXT,
+        upstream TEXT
+      );
+    `).run()
+    // 旧版本建的表没有 upstream 列，已经有了会报错，忽略
+    await this.db.prepare(`ALTER TABLE cache ADD COLUMN upstream TEXT`).run().catch(() => {})
+    logger.success(`init cache table`)
+  }
+
+  async set(key: string, value: NewsItem[], { updated = Date.now(), upstream }: CacheOption = {}) {
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO cache (id, data, updated, upstream) VALUES (?, ?, ?, ?)`,
+    ).run(key, JSON.stringify(value), updated, upstream ? JSON.stringify(upstream) : null)
+    logger.success(`set ${key} cache`)
+  }
+
+  async get(key: string): Promise<CacheInfo | undefined > {
+    const row = (await this.db.prepare(`SELECT id, data, updated, upstream FROM cache WHERE id = ?`).get(key)) as CacheRow | undefined
+    if (row) {
+      logger.success(`get ${key} cache`)
+      return toCacheInfo(row)
+    }
+  }
+
+  async getEntire(keys: string[]): Promise<CacheInfo[]> {
+    const keysStr = keys.map(k => `id = '${k}'`).join(" or ")
+    const res = await this.db.prepare(`SELECT id, data, updated, upstream FROM cache WHERE ${keysStr}`).all() as any
+    const rows = (res.results ?? res) as CacheRow[]
+
+    /**
+     * https://developers.cloudflare.com/d1/build-with-d1/d1-client-api/#return-object
+     * cloudflare d1 .all() will return
+     * {
+     *   success: boolean
+     *   meta:
+     *   results:
+     * }
+     */
+    if (rows?.length) {
+      logger.success(`get entire (...) cache`)
+      return rows.map(toCacheInfo)
+    } else {
+      return []
+    }
+  }
+
+  async delete(key: string) {
+    await this.db.prepare(`DELETE FROM cache WHERE id = ?`).run(key)
+  }
+}
@@ -0,0 +1,28 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { beforeEach, describe, expect, it } from "vitest"
+import { DriftRetention, DriftTable } from "./drift"
+
+describe("drift", () => {
+  let driftTable: DriftTable
+
+  beforeEach(async () => {
+    driftTable = new DriftTable(createDatabase(sqlite({ name: ":memory:" })))
+    await driftTable.init()
+  })
+
+  it("按源累加丢弃条数和字段", async () => {
+    await driftTable.add("weibo", { dropped: 1, total: 30, fields: { url: 1 } }, 1000)
+    await driftTable.add("weibo", { dropped: 0, total: 30, fields: { pubDate: 2 } }, 2000)
+    expect(Object.fromEntries(await driftTable.getSummary(0))).toEqual({
+      weibo: { dropped: 1, total: 60, fields: { url: 1, pubDate: 2 }, updated: 2000 },
+    })
+  })
+
+  it("写入时删掉 7 天前的记录", async () => {
+    const now = DriftRetention + 10000
+    await driftTable.add("weibo", { dropped: 1, total: 30, fields: { url: 1 } }, 1000)
+    await driftTable.add("zhihu", { dropped: 1, total: 30, fields: { title: 1 } }, now)
+    expect([...(await driftTable.getSummary(0)).keys()]).toEqual(["zhihu"])
+  })
+})
@@ -0,0 +1,81 @@
+import process from "node:process"
+import type { SourceDrift, SourceID } from "@shared/types"
+import type { Database } from "db0"
+
+interface DriftRow {
+  id: SourceID
+  dropped: number
+  total: number
+  fields: string
+  updated: number
+}
+
+// 和健康记录一样保留 7 天，更早的写入时删掉
+export const DriftRetention = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * getter 输出里校验不合格的条目，只记有丢弃或去掉日期的那次拉取
+ */
+export class DriftTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS drift (
+        id TEXT,
+        dropped INTEGER,
+        total INTEGER,
+        fields TEXT,
+        updated INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_drift_updated ON drift(updated);
+    `).run()
+    logger.success(`init drift table`)
+  }
+
+  async add(id: string, { dropped, total, fields }: Omit<SourceDrift, "updated">, updated = Date.now()) {
+    await this.db.prepare(
+      `INSERT INTO drift (id, dropped, total, fields, updated) VALUES (?, ?, ?, ?, ?)`,
+    ).run(id, dropped, total, JSON.stringify(fields), updated)
+    await this.db.prepare(`DELETE FROM drift WHERE updated < ?`).run(updated - DriftRetention)
+  }
+
+  /**
+   * 按源汇总，字段的失败次数累加
+   */
+  async getSummary(since: number) {
+    const res = await this.db.prepare(`SELECT * FROM drift WHERE updated >= ?`).all(since) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res ?? []) as DriftRow[]
+    const summary = new Map<SourceID, SourceDrift>()
+    rows.forEach((row) => {
+      const drift = summary.get(row.id) ?? { dropped: 0, total: 0, fields: {}, updated: 0 }
+      drift.dropped += row.dropped
+      drift.total += row.total
+      drift.updated = Math.max(drift.updated, row.updated)
+      Object.entries(JSON.parse(row.fields) as Record<string, number>).forEach(([k, v]) => {
+        drift.fields[k] = (drift.fields[k] ?? 0) + v
+      })
+      summary.set(row.id, drift)
+    })
+    return summary
+  }
+}
+
+export async function getDriftTable() {
+  try {
+    const db = useDatabase()
+    // 属于健康监控的一部分
+    if (process.env.ENABLE_HEALTH === "false") return
+    const driftTable = new DriftTable(db)
+    if (process.env.INIT_TABLE !== "false") await driftTable.init()
+    return driftTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
@@ -0,0 +1,58 @@
+import process from "node:process"
+import type { Database } from "db0"
+import { getRandomValues } from "uncrypto"
+
+/**
+ * 私有订阅地址的 token，知道 token 就能读到对应用户关注的源
+ */
+export class FeedTokenTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS feed_token (
+        token TEXT PRIMARY KEY,
+        user TEXT UNIQUE,
+        created INTEGER
+      );
+    `).run()
+    logger.success(`init feed token table`)
+  }
+
+  async getToken(user: string) {
+    const row = (await this.db.prepare(`SELECT token FROM feed_token WHERE user = ?`).get(user)) as { token: string } | undefined
+    return row?.token ?? await this.resetToken(user)
+  }
+
+  /**
+   * 换一个新的 token，旧的订阅地址随之失效
+   */
+  async resetToken(user: string) {
+    const token = Array.from(getRandomValues(new Uint8Array(16)), (b: number) => b.toString(16).padStart(2, "0")).join("")
+    await this.db.prepare(`
+      INSERT INTO feed_token (token, user, created) VALUES (?, ?, ?)
+      ON CONFLICT(user) DO UPDATE SET token = excluded.token, created = excluded.created
+    `).run(token, user, Date.now())
+    logger.success(`reset feed token of ${user}`)
+    return token
+  }
+
+  async getUser(token: string) {
+    const row = (await this.db.prepare(`SELECT user FROM feed_token WHERE token = ?`).get(token)) as { user: string } | undefined
+    return row?.user
+  }
+}
+
+export async function getFeedTokenTable() {
+  try {
+    const db = useDatabase()
+    const feedTokenTable = new FeedTokenTable(db)
+    if (process.env.INIT_TABLE !== "false") await feedTokenTable.init()
+    return feedTokenTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
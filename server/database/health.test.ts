@@ -0,0 +1,39 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { beforeEach, describe, expect, it } from "vitest"
+import { HealthRetention, HealthTable } from "./health"
+
+describe("health", () => {
+  let healthTable: HealthTable
+
+  beforeEach(async () => {
+    healthTable = new HealthTable(createDatabase(sqlite({ name: ":memory:" })))
+    await healthTable.init()
+  })
+
+  it("汇总成功率、耗时和最近的错误", async () => {
+    await healthTable.add("weibo", { ok: true, latency: 100, count: 30 }, 1000)
+    await healthTable.add("weibo", { ok: false, latency: 300, count: 0, error: "timeout" }, 2000)
+    await healthTable.add("weibo", { ok: true, latency: 200, count: 20 }, 3000)
+    expect(await healthTable.getSummary(0)).toEqual([{
+      id: "weibo",
+      total: 3,
+      success: 2,
+      latency: 200,
+      lastSuccess: 3000,
+      lastCount: 20,
+      lastStatus: "success",
+      updated: 3000,
+      lastError: { message: "timeout", time: 2000 },
+    }])
+  })
+
+  it("写入时删掉过期的记录", async () => {
+    const now = HealthRetention * 2
+    await healthTable.add("weibo", { ok: false, latency: 100, count: 0, error: "old" }, now - HealthRetention - 1)
+    await healthTable.add("weibo", { ok: true, latency: 100, count: 30 }, now)
+    const [summary] = await healthTable.getSummary(0)
+    expect(summary.total).toBe(1)
+    expect(summary.lastError).toBeUndefined()
+  })
+})
@@ -0,0 +1,116 @@
+import process from "node:process"
+import type { SourceHealth, SourceID } from "@shared/types"
+import type { Database } from "db0"
+
+export interface HealthRecord {
+  ok: boolean
+  latency: number
+  count: number
+  error?: string
+}
+
+interface SummaryRow {
+  id: SourceID
+  total: number
+  success: number
+  latency: number
+  lastSuccess: number | null
+}
+
+interface LatestRow {
+  id: SourceID
+  ok: number
+  count: number
+  updated: number
+}
+
+interface ErrorRow {
+  id: SourceID
+  error: string
+  updated: number
+}
+
+// 状态页只看最近一天，多留几天方便排查，更早的写入时删掉
+export const HealthRetention = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * 每次调用 getter 的结果，成功与否、耗时、条数和报错
+ */
+export class HealthTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS health (
+        id TEXT,
+        ok INTEGER,
+        latency INTEGER,
+        count INTEGER,
+        error TEXT,
+        updated INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_health_id_updated ON health(id, updated);
+    `).run()
+    logger.success(`init health table`)
+  }
+
+  async add(key: string, { ok, latency, count, error }: HealthRecord, updated = Date.now()) {
+    await this.db.prepare(
+      `INSERT INTO health (id, ok, latency, count, error, updated) VALUES (?, ?, ?, ?, ?, ?)`,
+    ).run(key, ok ? 1 : 0, latency, count, error ?? null, updated)
+    await this.db.prepare(`DELETE FROM health WHERE id = ? AND updated < ?`).run(key, updated - HealthRetention)
+  }
+
+  async getSummary(since: number): Promise<Omit<SourceHealth, "uptime">[]> {
+    const all = async <T>(sql: string, ...params: any[]) => {
+      const res = await this.db.prepare(sql).all(...params) as any
+      // cloudflare d1 .all() will return { results }
+      return (res.results ?? res ?? []) as T[]
+    }
+    const [summary, latest, errors] = await Promise.all([
+      all<SummaryRow>(`
+        SELECT id, COUNT(*) AS total, SUM(ok) AS success, AVG(latency) AS latency,
+          MAX(CASE WHEN ok = 1 THEN updated END) AS lastSuccess
+        FROM health WHERE updated >= ? GROUP BY id
+      `, since),
+      // sqlite 中和 MAX 一起查询的列取自最大值所在的那一行
+      all<LatestRow>(`SELECT id, ok, count, MAX(updated) AS updated FROM health WHERE updated >= ? GROUP BY id`, since),
+      all<ErrorRow>(`SELECT id, error, MAX(updated) AS updated FROM health WHERE ok = 0 AND updated >= ? GROUP BY id`, since),
+    ])
+    logger.success(`get health summary`)
+    const latestMap = new Map(latest.map(row => [row.id, row]))
+    const errorMap = new Map(errors.map(row => [row.id, row]))
+    return summary.map((row) => {
+      const last = latestMap.get(row.id)
+      const error = errorMap.get(row.id)
+      return {
+        id: row.id,
+        total: row.total,
+        success: row.success,
+        latency: Math.round(row.latency),
+        lastSuccess: row.lastSuccess ?? undefined,
+        lastCount: last?.count,
+        lastStatus: last ? (last.ok ? "success" : "failed") : undefined,
+        updated: last?.updated,
+        lastError: error && { message: error.error, time: error.updated },
+      }
+    })
+  }
+}
+
+export async function getHealthTable() {
+  try {
+    const db = useDatabase()
+    if (process.env.ENABLE_HEALTH === "false") return
+    const healthTable = new HealthTable(db)
+    if (process.env.INIT_TABLE !== "false") await healthTable.init()
+    return healthTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
@@ -0,0 +1,40 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { beforeEach, describe, expect, it } from "vitest"
+import { History, HistoryRetention } from "./history"
+
+describe("history", () => {
+  const items = (title: string) => [{ id: title, title, url: `https://example.com/${title}` }]
+  let history: History
+
+  beforeEach(async () => {
+    history = new History(createDatabase(sqlite({ name: ":memory:" })))
+    await history.init()
+  })
+
+  it("写入时删掉过期的快照", async () => {
+    const now = HistoryRetention * 2
+    await history.add("weibo", items("old"), now - HistoryRetention - 1)
+    await history.add("zhihu", items("other"), now - HistoryRetention - 1)
+    await history.add("weibo", items("new"), now)
+    expect(await history.getTimes("weibo")).toEqual([now])
+    // 只清理写入的源
+    expect(await history.getTimes("zhihu")).toEqual([now - HistoryRetention - 1])
+  })
+
+  it("取指定时刻之前最近的快照", async () => {
+    await history.add("weibo", items("a"), 1000)
+    await history.add("weibo", items("b"), 2000)
+    expect(await history.get("weibo", 1500)).toEqual({ id: "weibo", updated: 1000, items: items("a") })
+    expect((await history.get("weibo", 2000))?.items).toEqual(items("b"))
+    expect(await history.get("weibo", 999)).toBeUndefined()
+  })
+
+  it("快照时间升序，只要 since 之后的", async () => {
+    await history.add("weibo", items("b"), 2000)
+    await history.add("weibo", items("a"), 1000)
+    await history.add("weibo", items("c"), 3000)
+    expect(await history.getTimes("weibo")).toEqual([1000, 2000, 3000])
+    expect(await history.getTimes("weibo", 2000)).toEqual([2000, 3000])
+  })
+})
@@ -0,0 +1,80 @@
+import process from "node:process"
+import type { NewsItem } from "@shared/types"
+import type { Database } from "db0"
+import type { CacheInfo, CacheRow } from "#/types"
+
+// 快照只保留一周，和 /api/s/history 能看到的范围一致，不然表会一直变大
+export const HistoryRetention = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * 历史快照，只追加不覆盖，每次成功拉取都会记录一份，超过 HistoryRetention 的在写入时删掉
+ */
+export class History {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS history (
+        id TEXT,
+        updated INTEGER,
+        data TEXT
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_history_id_updated ON history(id, updated);
+    `).run()
+    logger.success(`init history table`)
+  }
+
+  async add(key: string, value: NewsItem[], updated = Date.now()) {
+    await this.db.prepare(
+      `INSERT INTO history (id, data, updated) VALUES (?, ?, ?)`,
+    ).run(key, JSON.stringify(value), updated)
+    await this.db.prepare(`DELETE FROM history WHERE id = ? AND updated < ?`).run(key, updated - HistoryRetention)
+    logger.success(`add ${key} history`)
+  }
+
+  /**
+   * 获取 at 时刻（含）之前最近的一份快照
+   */
+  async get(key: string, at = Date.now()): Promise<CacheInfo | undefined> {
+    const row = (await this.db.prepare(
+      `SELECT id, data, updated FROM history WHERE id = ? AND updated <= ? ORDER BY updated DESC LIMIT 1`,
+    ).get(key, at)) as CacheRow | undefined
+    if (row) {
+      logger.success(`get ${key} history`)
+      return {
+        id: row.id,
+        updated: row.updated,
+        items: JSON.parse(row.data),
+      }
+    }
+  }
+
+  /**
+   * since 之后所有快照的时间，升序
+   */
+  async getTimes(key: string, since = 0): Promise<number[]> {
+    const res = await this.db.prepare(
+      `SELECT updated FROM history WHERE id = ? AND updated >= ? ORDER BY updated ASC`,
+    ).all(key, since) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res) as { updated: number }[]
+    return rows?.map(row => row.updated) ?? []
+  }
+}
+
+export async function getHistoryTable() {
+  try {
+    const db = useDatabase()
+    if (process.env.ENABLE_HISTORY === "false") return
+    const historyTable = new History(db)
+    if (process.env.INIT_TABLE !== "false") await historyTable.init()
+    return historyTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
@@ -0,0 +1,37 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { LeaseTable } from "./lease"
+
+describe("lease", () => {
+  let leaseTable: LeaseTable
+
+  beforeEach(async () => {
+    leaseTable = new LeaseTable(createDatabase(sqlite({ name: ":memory:" })))
+    await leaseTable.init()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("租约被别人拿着时拿不到，释放后可以拿", async () => {
+    expect(await leaseTable.acquire("weibo", "a", 1000)).toBe(true)
+    expect(await leaseTable.acquire("weibo", "b", 1000)).toBe(false)
+    expect(await leaseTable.acquire("zhihu", "b", 1000)).toBe(true)
+    // 不是自己的租约释放不了
+    await leaseTable.release("weibo", "b")
+    expect(await leaseTable.acquire("weibo", "b", 1000)).toBe(false)
+    await leaseTable.release("weibo", "a")
+    expect(await leaseTable.acquire("weibo", "b", 1000)).toBe(true)
+  })
+
+  it("过期后别人可以拿", async () => {
+    vi.useFakeTimers({ now: 1000 })
+    expect(await leaseTable.acquire("weibo", "a", 1000)).toBe(true)
+    vi.setSystemTime(1999)
+    expect(await leaseTable.acquire("weibo", "b", 1000)).toBe(false)
+    vi.setSystemTime(2001)
+    expect(await leaseTable.acquire("weibo", "b", 1000)).toBe(true)
+  })
+})
@@ -0,0 +1,54 @@
+import process from "node:process"
+import type { Database } from "db0"
+
+/**
+ * 多实例部署时，同一个源同一时间只让一个实例去拉取
+ */
+export class LeaseTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS lease (
+        id TEXT PRIMARY KEY,
+        owner TEXT,
+        expires INTEGER
+      );
+    `).run()
+    logger.success(`init lease table`)
+  }
+
+  /**
+   * 没有租约或者租约已过期时才能拿到
+   */
+  async acquire(key: string, owner: string, ttl: number) {
+    const now = Date.now()
+    await this.db.prepare(`
+      INSERT INTO lease (id, owner, expires) VALUES (?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET owner = excluded.owner, expires = excluded.expires
+      WHERE lease.expires < ?
+    `).run(key, owner, now + ttl, now)
+    const row = (await this.db.prepare(`SELECT owner FROM lease WHERE id = ?`).get(key)) as { owner: string } | undefined
+    return row?.owner === owner
+  }
+
+  async release(key: string, owner: string) {
+    await this.db.prepare(`DELETE FROM lease WHERE id = ? AND owner = ?`).run(key, owner)
+  }
+}
+
+export async function getLeaseTable() {
+  try {
+    // 单实例不需要，默认关闭
+    if (process.env.ENABLE_LEASE !== "true") return
+    const db = useDatabase()
+    const leaseTable = new LeaseTable(db)
+    if (process.env.INIT_TABLE !== "false") await leaseTable.init()
+    return leaseTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
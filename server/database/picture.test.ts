@@ -0,0 +1,49 @@
+import { Buffer } from "node:buffer"
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { FSPictureCache, MaxSQLPictureSize, PictureTTL, SQLPictureCache } from "./picture"
+
+describe("picture cache", () => {
+  const picture = { type: "image/png", data: Buffer.from("png") }
+
+  it("数据库里不存太大的图", async () => {
+    const cache = new SQLPictureCache(createDatabase(sqlite({ name: ":memory:" })))
+    await cache.init()
+    await cache.set("small", picture)
+    await cache.set("large", { type: "image/png", data: Buffer.alloc(MaxSQLPictureSize + 1) })
+    expect(await cache.get("small")).toEqual(picture)
+    expect(await cache.get("large")).toBeUndefined()
+  })
+
+  describe("fs", () => {
+    let dir = ""
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "newsnow-picture-"))
+    })
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it("读写", async () => {
+      const cache = new FSPictureCache(dir)
+      await cache.set("a", picture)
+      expect(await cache.get("a")).toEqual(picture)
+    })
+
+    it("清理过期的文件", async () => {
+      const cache = new FSPictureCache(dir)
+      await cache.set("old", picture)
+      await cache.set("new", picture)
+      const expired = new Date(Date.now() - PictureTTL - 1000)
+      await utimes(join(dir, "old"), expired, expired)
+      expect(await cache.get("old")).toBeUndefined()
+      await cache.prune()
+      expect(await readdir(dir)).not.toContain("old")
+      expect(await readdir(dir)).toContain("new")
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import process from "node:process"
+import { Buffer } from "node:buffer"
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import type { Database } from "db0"
+
+export interface Picture {
+  type: string
+  data: Buffer
+}
+
+export interface PictureCacheStore {
+  get: (key: string) => Promise<Picture | undefined>
+  set: (key: string, picture: Picture) => Promise<void>
+}
+
+// 图片很少变，缓存一周
+export const PictureTTL = 7 * 24 * 60 * 60 * 1000
+// d1 单行最大 2MB，base64 之后会大三分之一，再大的就不缓存了
+export const MaxSQLPictureSize = 1024 * 1024
+// 清理要遍历整个目录，每小时最多一次
+const PruneInterval = 60 * 60 * 1000
+let prunedAt = 0
+
+/**
+ * 图片存成 base64，d1 和 sqlite 都能用，超过 MaxSQLPictureSize 的不存
+ */
+export class SQLPictureCache implements PictureCacheStore {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS picture (
+        id TEXT PRIMARY KEY,
+        type TEXT,
+        data TEXT,
+        updated INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_picture_updated ON picture(updated);
+    `).run()
+    logger.success(`init picture table`)
+  }
+
+  async get(key: string) {
+    const row = await this.db.prepare(`SELECT type, data FROM picture WHERE id = ? AND updated >= ?`).get(key, Date.now() - PictureTTL) as { type: string, data: string } | undefined
+    if (row) return { type: row.type, data: Buffer.from(row.data, "base64") }
+  }
+
+  async set(key: string, { type, data }: Picture) {
+    if (data.length > MaxSQLPictureSize) return
+    const now = Date.now()
+    await this.db.prepare(
+      `INSERT OR REPLACE INTO picture (id, type, data, updated) VALUES (?, ?, ?, ?)`,
+    ).run(key, type, data.toString("base64"), now)
+    // 顺便清掉过期的
+    await this.db.prepare(`DELETE FROM picture WHERE updated < ?`).run(now - PictureTTL)
+  }
+}
+
+/**
+ * 每张图一个文件，第一行是 content-type，过期按修改时间算，写入时顺便清理
+ */
+export class FSPictureCache implements PictureCacheStore {
+  private base
+  constructor(base: string) {
+    this.base = base
+  }
+
+  async init() {
+    await mkdir(this.base, { recursive: true })
+    logger.success(`init picture cache dir ${this.base}`)
+  }
+
+  async get(key: string) {
+    try {
+      const path = join(this.base, key)
+      if (Date.now() - (await stat(path)).mtimeMs > PictureTTL) return
+      const file = await readFile(path)
+      const end = file.indexOf(10)
+      return { type: file.subarray(0, end).toString(), data: file.subarray(end + 1) }
+    } catch {
+      // 文件不存在
+    }
+  }
+
+  async set(key: string, { type, data }: Picture) {
+    await writeFile(join(this.base, key), Buffer.concat([Buffer.from(`${type}\n`), data]))
+    const now = Date.now()
+    if (now - prunedAt > PruneInterval) {
+      prunedAt = now
+      await this.prune(now)
+    }
+  }
+
+  /**
+   * 删掉过期的文件
+   */
+  async prune(now = Date.now()) {
+    const files = await readdir(this.base)
+    await Promise.all(files.map(async (file) => {
+      const path = join(this.base, file)
+      try {
+        if (now - (await stat(path)).mtimeMs > PictureTTL) await rm(path, { force: true })
+      } catch {
+        // 同时被别的请求删掉了
+      }
+    }))
+  }
+}
+
+/**
+ * 跟着 CACHE_DRIVER 走，fs 时存到 CACHE_DIR/pictures，其余的用数据库
+ */
+export async function getPictureCache(): Promise<PictureCacheStore | undefined> {
+  if (process.env.ENABLE_CACHE === "false") return
+  try {
+    if (process.env.CACHE_DRIVER === "fs") {
+      const fsCache = new FSPictureCache(join(process.env.CACHE_DIR || ".data/cache", "pictures"))
+      if (process.env.INIT_TABLE !== "false") await fsCache.init()
+      return fsCache
+    }
+    const pictureCache = new SQLPictureCache(useDatabase())
+    if (process.env.INIT_TABLE !== "false") await pictureCache.init()
+    return pictureCache
+  } catch (e) {
+    logger.error("failed to init picture cache ", e)
+  }
+}
@@ -0,0 +1,42 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { beforeEach, describe, expect, it } from "vitest"
+import { RankRetention, RankTable } from "./rank"
+
+describe("rank", () => {
+  const item = (id: string) => ({ id, title: id, url: `https://example.com/${id}` })
+  let rankTable: RankTable
+
+  beforeEach(async () => {
+    rankTable = new RankTable(createDatabase(sqlite({ name: ":memory:" })))
+    await rankTable.init()
+  })
+
+  it("写入时删掉过期的排名", async () => {
+    const now = RankRetention * 2
+    await rankTable.add("weibo", [item("a")], now - RankRetention - 1)
+    await rankTable.add("weibo", [item("b"), item("a")], now)
+    expect((await rankTable.getTrajectory("weibo", "a"))?.points).toEqual([{ time: now, rank: 2 }])
+  })
+
+  it("排名轨迹", async () => {
+    await rankTable.add("weibo", [item("a"), item("b")], 1000)
+    await rankTable.add("weibo", [item("b"), item("a")], 2000)
+    await rankTable.add("weibo", [item("c"), item("b"), item("a")], 3000)
+    expect(await rankTable.getTrajectory("weibo", "a")).toEqual({
+      item: "a",
+      firstSeen: 1000,
+      lastSeen: 3000,
+      peak: 1,
+      duration: 2000,
+      points: [{ time: 1000, rank: 1 }, { time: 2000, rank: 2 }, { time: 3000, rank: 3 }],
+    })
+    expect((await rankTable.getTrajectory("weibo", "a", 2000))?.points).toHaveLength(2)
+    expect(await rankTable.getTrajectory("zhihu", "a")).toBeUndefined()
+  })
+
+  it("超过一批的条目分批写入，排名连续", async () => {
+    await rankTable.add("weibo", Array.from({ length: 30 }, (_, i) => item(String(i))), 1000)
+    expect((await rankTable.getTrajectory("weibo", "27"))?.peak).toBe(28)
+  })
+})
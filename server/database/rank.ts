@@ -0,0 +1,84 @@
+import process from "node:process"
+import type { NewsItem, RankTrajectory } from "@shared/types"
+import type { Database } from "db0"
+
+interface RankRow {
+  rank: number
+  updated: number
+}
+
+// 排名轨迹只看最近一周，更早的写入时删掉
+export const RankRetention = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * 记录最热榜单每次拉取时各条目的排名
+ */
+export class RankTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS rank (
+        source TEXT,
+        item TEXT,
+        rank INTEGER,
+        updated INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_rank_source_item ON rank(source, item, updated);
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_rank_source_updated ON rank(source, updated);
+    `).run()
+    logger.success(`init rank table`)
+  }
+
+  async add(source: string, items: NewsItem[], updated = Date.now()) {
+    // cloudflare d1 最多绑定 100 个参数，每行 4 个
+    const size = 25
+    for (let i = 0; i < items.length; i += size) {
+      const chunk = items.slice(i, i + size)
+      await this.db.prepare(
+        `INSERT INTO rank (source, item, rank, updated) VALUES ${chunk.map(() => "(?, ?, ?, ?)").join(", ")}`,
+      ).run(...chunk.flatMap((item, j) => [source, String(item.id), i + j + 1, updated]))
+    }
+    await this.db.prepare(`DELETE FROM rank WHERE source = ? AND updated < ?`).run(source, updated - RankRetention)
+    logger.success(`add ${source} rank`)
+  }
+
+  async getTrajectory(source: string, item: string, since = 0): Promise<RankTrajectory | undefined> {
+    const res = await this.db.prepare(
+      `SELECT rank, updated FROM rank WHERE source = ? AND item = ? AND updated >= ? ORDER BY updated ASC`,
+    ).all(source, item, since) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res) as RankRow[]
+    if (!rows?.length) return
+    logger.success(`get ${source} ${item} rank`)
+    const firstSeen = rows[0].updated
+    const lastSeen = rows[rows.length - 1].updated
+    return {
+      item,
+      firstSeen,
+      lastSeen,
+      peak: Math.min(...rows.map(row => row.rank)),
+      duration: lastSeen - firstSeen,
+      points: rows.map(row => ({ time: row.updated, rank: row.rank })),
+    }
+  }
+}
+
+export async function getRankTable() {
+  try {
+    const db = useDatabase()
+    if (process.env.ENABLE_HISTORY === "false") return
+    const rankTable = new RankTable(db)
+    if (process.env.INIT_TABLE !== "false") await rankTable.init()
+    return rankTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
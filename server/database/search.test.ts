@@ -0,0 +1,64 @@
+import { createDatabase } from "db0"
+import type { Database } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import { beforeEach, describe, expect, it } from "vitest"
+import { SearchRetention, SearchTable } from "./search"
+
+describe("search", () => {
+  const item = (id: string, title: string) => ({ id, title, url: `https://example.com/${id}` })
+  let db: Database
+  let searchTable: SearchTable
+
+  beforeEach(async () => {
+    db = createDatabase(sqlite({ name: ":memory:" }))
+    searchTable = new SearchTable(db)
+    await searchTable.init()
+  })
+
+  it("写入时删掉很久没出现的标题", async () => {
+    const now = SearchRetention * 2
+    await searchTable.add("weibo", [item("1", "央行宣布降准")], now - SearchRetention - 1)
+    await searchTable.add("zhihu", [item("2", "央行降准意味着什么")], now)
+    expect((await searchTable.search("央行")).map(k => k.item.id)).toEqual(["2"])
+    expect(await db.prepare(`SELECT source, item FROM search_item`).all()).toEqual([{ source: "zhihu", item: "2" }])
+  })
+
+  it("长词全文匹配，短词按子串", async () => {
+    await searchTable.add("weibo", [item("1", "央行宣布降准"), item("2", "今日天气")], 1000)
+    expect((await searchTable.search("宣布降准")).map(k => k.item.id)).toEqual(["1"])
+    expect((await searchTable.search("央行 降准")).map(k => k.item.id)).toEqual(["1"])
+    expect((await searchTable.search("天气")).map(k => k.item.id)).toEqual(["2"])
+    expect(await searchTable.search("  ")).toEqual([])
+  })
+
+  it("按源和时间过滤，新的在前", async () => {
+    await searchTable.add("weibo", [item("1", "央行宣布降准")], 1000)
+    await searchTable.add("zhihu", [item("2", "央行降准意味着什么")], 2000)
+    expect(await searchTable.search("央行")).toEqual([
+      { source: "zhihu", updated: 2000, item: item("2", "央行降准意味着什么") },
+      { source: "weibo", updated: 1000, item: item("1", "央行宣布降准") },
+    ])
+    expect((await searchTable.search("央行", { sources: ["weibo"] })).map(k => k.source)).toEqual(["weibo"])
+    expect((await searchTable.search("央行", { since: 1500 })).map(k => k.source)).toEqual(["zhihu"])
+    expect(await searchTable.search("央行", { limit: 1 })).toHaveLength(1)
+  })
+
+  it("同一条目再次出现时更新，不重复", async () => {
+    await searchTable.add("weibo", [item("1", "央行宣布降准")], 1000)
+    await searchTable.add("weibo", [item("1", "央行宣布降准 0.5 个百分点")], 2000)
+    expect(await searchTable.search("央行")).toEqual([
+      { source: "weibo", updated: 2000, item: item("1", "央行宣布降准 0.5 个百分点") },
+    ])
+  })
+  it("同一批里重复的条目只留一条", async () => {
+    await searchTable.add("weibo", [item("1", "央行宣布降准"), item("1", "央行宣布降准 0.5 个百分点")], 1000)
+    expect((await searchTable.search("央行")).map(k => k.item.title)).toEqual(["央行宣布降准 0.5 个百分点"])
+  })
+
+  it("按 rowid 删旧的，不扫全文索引", async () => {
+    const plan = await db.prepare(
+      `EXPLAIN QUERY PLAN SELECT id FROM search_item WHERE source = ? AND item IN (?, ?)`,
+    ).all("weibo", "1", "2") as { detail: string }[]
+    expect(plan.map(k => k.detail).join("\n")).toMatch(/USING (COVERING )?INDEX/)
+  })
+})
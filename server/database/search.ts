@@ -0,0 +1,139 @@
+import process from "node:process"
+import type { NewsItem, SearchResult, SourceID } from "@shared/types"
+import type { Database } from "db0"
+
+interface SearchRow {
+  source: SourceID
+  data: string
+  updated: number
+}
+
+export interface SearchOption {
+  sources?: SourceID[]
+  since?: number
+  // default: 50
+  limit?: number
+}
+
+// 索引保留 30 天，按条目最后一次出现的时间算
+export const SearchRetention = 30 * 24 * 60 * 60 * 1000
+// 清理要删两张表，每小时最多一次
+const PruneInterval = 60 * 60 * 1000
+let prunedAt = 0
+
+/**
+ * 标题全文索引，FTS5 trigram 分词，中文也能按子串搜索
+ */
+export class SearchTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS search USING fts5(
+        title,
+        source UNINDEXED,
+        data UNINDEXED,
+        updated UNINDEXED,
+        tokenize = "trigram"
+      );
+    `).run()
+    // fts5 的 UNINDEXED 列按值查要扫全表，用普通表记 (source, item) 对应的 rowid
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS search_item (
+        id INTEGER PRIMARY KEY,
+        source TEXT,
+        item TEXT,
+        updated INTEGER,
+        UNIQUE (source, item)
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_search_item_updated ON search_item(updated);
+    `).run()
+    logger.success(`init search table`)
+  }
+
+  async add(source: string, newsItems: NewsItem[], updated = Date.now()) {
+    // 同一批里 id 重复会写同一个 rowid，只留最后一条
+    const items = [...new Map(newsItems.map(item => [String(item.id), item])).values()]
+    // cloudflare d1 最多绑定 100 个参数，写 search 时每行 6 个
+    const size = 16
+    for (let i = 0; i < items.length; i += size) {
+      const chunk = items.slice(i, i + size)
+      const ids = chunk.map(item => String(item.id))
+      // fts5 没有唯一约束，按 rowid 先删再插
+      await this.db.prepare(
+        `DELETE FROM search WHERE rowid IN (SELECT id FROM search_item WHERE source = ? AND item IN (${ids.map(() => "?").join(", ")}))`,
+      ).run(source, ...ids)
+      await this.db.prepare(
+        `INSERT INTO search_item (source, item, updated) VALUES ${ids.map(() => "(?, ?, ?)").join(", ")}
+        ON CONFLICT (source, item) DO UPDATE SET updated = excluded.updated`,
+      ).run(...ids.flatMap(id => [source, id, updated]))
+      await this.db.prepare(
+        `INSERT INTO search (rowid, title, source, data, updated) VALUES ${chunk.map(() => "((SELECT id FROM search_item WHERE source = ? AND item = ?), ?, ?, ?, ?)").join(", ")}`,
+      ).run(...chunk.flatMap((item, j) => [source, ids[j], item.title, source, JSON.stringify(item), updated]))
+    }
+    if (updated - prunedAt > PruneInterval) {
+      prunedAt = updated
+      await this.db.prepare(
+        `DELETE FROM search WHERE rowid IN (SELECT id FROM search_item WHERE updated < ?)`,
+      ).run(updated - SearchRetention)
+      await this.db.prepare(`DELETE FROM search_item WHERE updated < ?`).run(updated - SearchRetention)
+    }
+    logger.success(`index ${source} titles`)
+  }
+
+  async search(q: string, { sources, since, limit = 50 }: SearchOption = {}): Promise<SearchResult[]> {
+    const terms = q.trim().split(/\s+/).filter(Boolean)
+    if (!terms.length) return []
+
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    // trigram 至少需要 3 个字符才能 MATCH，短的只能 LIKE
+    const long = terms.filter(t => [...t].length >= 3)
+    const short = terms.filter(t => [...t].length < 3)
+    if (long.length) {
+      conditions.push(`search MATCH ?`)
+      params.push(long.map(t => `"${t.replace(/"/g, `""`)}"`).join(" AND "))
+    }
+    short.forEach((t) => {
+      conditions.push(`title LIKE ?`)
+      params.push(`%${t}%`)
+    })
+    if (sources?.length) {
+      conditions.push(`source IN (${sources.map(() => "?").join(", ")})`)
+      params.push(...sources)
+    }
+    if (since) {
+      conditions.push(`updated >= ?`)
+      params.push(since)
+    }
+
+    const res = await this.db.prepare(
+      `SELECT source, data, updated FROM search WHERE ${conditions.join(" AND ")} ORDER BY updated DESC LIMIT ?`,
+    ).all(...params, limit) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res) as SearchRow[]
+    logger.success(`search ${q}`)
+    return rows?.map(row => ({
+      source: row.source,
+      updated: row.updated,
+      item: JSON.parse(row.data) as NewsItem,
+    })) ?? []
+  }
+}
+
+export async function getSearchTable() {
+  try {
+    const db = useDatabase()
+    if (process.env.ENABLE_SEARCH === "false") return
+    const searchTable = new SearchTable(db)
+    if (process.env.INIT_TABLE !== "false") await searchTable.init()
+    return searchTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
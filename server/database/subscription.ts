@@ -0,0 +1,86 @@
+import process from "node:process"
+import type { FeedSubscription } from "@shared/types"
+import type { Database } from "db0"
+
+interface SubscriptionRow {
+  id: string
+  url: string
+  title: string
+  home: string | null
+  created: number
+}
+
+/**
+ * 用户订阅的 RSS/Atom，同一个地址不同用户共用一个 id
+ */
+export class SubscriptionTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS subscription (
+        id TEXT,
+        user TEXT,
+        url TEXT,
+        title TEXT,
+        home TEXT,
+        created INTEGER,
+        PRIMARY KEY (user, id)
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_subscription_id ON subscription(id);
+    `).run()
+    logger.success(`init subscription table`)
+  }
+
+  async getSubscriptions(user: string) {
+    const res = await this.db.prepare(`SELECT id, url, title, home, created FROM subscription WHERE user = ? ORDER BY created`).all(user) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res ?? []) as SubscriptionRow[]
+    return rows.map(row => ({
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      home: row.home ?? undefined,
+      created: row.created,
+    }) as FeedSubscription)
+  }
+
+  /**
+   * 任意一个用户订阅过就能拿到地址
+   */
+  async getURL(id: string) {
+    const row = (await this.db.prepare(`SELECT url FROM subscription WHERE id = ? LIMIT 1`).get(id)) as { url: string } | undefined
+    return row?.url
+  }
+
+  async add(user: string, subscriptions: FeedSubscription[]) {
+    for (const { id, url, title, home, created } of subscriptions) {
+      await this.db.prepare(`
+        INSERT INTO subscription (id, user, url, title, home, created) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(user, id) DO UPDATE SET title = excluded.title, home = excluded.home
+      `).run(id, user, url, title, home ?? null, created)
+    }
+    logger.success(`add ${subscriptions.length} subscriptions of ${user}`)
+  }
+
+  async delete(user: string, id: string) {
+    await this.db.prepare(`DELETE FROM subscription WHERE user = ? AND id = ?`).run(user, id)
+    logger.success(`delete subscription ${id} of ${user}`)
+  }
+}
+
+export async function getSubscriptionTable() {
+  try {
+    const db = useDatabase()
+    const subscriptionTable = new SubscriptionTable(db)
+    if (process.env.INIT_TABLE !== "false") await subscriptionTable.init()
+    return subscriptionTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
@@ -0,0 +1,119 @@
+import process from "node:process"
+import type { Webhook } from "@shared/types"
+import type { Database } from "db0"
+
+interface WebhookRow {
+  id: string
+  user: string
+  url: string
+  template: Webhook["template"]
+  sources: string
+  keywords: string
+  secret?: string | null
+  has_secret?: number
+  created: number
+  last_status: Webhook["lastStatus"] | null
+  last_error: string | null
+  last_time: number | null
+}
+
+/**
+ * 用户注册的 webhook，源有新条目时推送出去
+ */
+export class WebhookTable {
+  private db
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  async init() {
+    await this.db.prepare(`
+      CREATE TABLE IF NOT EXISTS webhook (
+        id TEXT PRIMARY KEY,
+        user TEXT,
+        url TEXT,
+        template TEXT,
+        sources TEXT,
+        keywords TEXT,
+        secret TEXT,
+        created INTEGER,
+        last_status TEXT,
+        last_error TEXT,
+        last_time INTEGER
+      );
+    `).run()
+    await this.db.prepare(`
+      CREATE INDEX IF NOT EXISTS idx_webhook_user ON webhook(user);
+    `).run()
+    logger.success(`init webhook table`)
+  }
+
+  private async all(sql: string, ...params: any[]) {
+    const res = await this.db.prepare(sql).all(...params) as any
+    // cloudflare d1 .all() will return { results }
+    const rows = (res.results ?? res ?? []) as WebhookRow[]
+    return rows.map(row => ({
+      user: row.user,
+      webhook: {
+        id: row.id,
+        url: row.url,
+        template: row.template,
+        sources: JSON.parse(row.sources),
+        keywords: JSON.parse(row.keywords),
+        secret: row.secret ?? undefined,
+        hasSecret: row.secret != null || !!row.has_secret,
+        created: row.created,
+        lastStatus: row.last_status ?? undefined,
+        lastError: row.last_error ?? undefined,
+        lastTime: row.last_time ?? undefined,
+      } as Webhook,
+    }))
+  }
+
+  /**
+   * 给用户自己看的，不查 secret
+   */
+  async getWebhooks(user: string) {
+    return (await this.all(`
+      SELECT id, user, url, template, sources, keywords, secret IS NOT NULL AS has_secret, created, last_status, last_error, last_time
+      FROM webhook WHERE user = ? ORDER BY created DESC
+    `, user)).map(k => k.webhook)
+  }
+
+  /**
+   * 订阅了这个源的所有 webhook
+   */
+  async getBySource(source: string) {
+    // sources 存的是 JSON 数组
+    return (await this.all(`SELECT * FROM webhook WHERE sources LIKE ?`, `%"${source}"%`)).map(k => k.webhook)
+  }
+
+  async add(user: string, { id, url, template, sources, keywords, secret, created }: Webhook) {
+    await this.db.prepare(`
+      INSERT INTO webhook (id, user, url, template, sources, keywords, secret, created) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, user, url, template, JSON.stringify(sources), JSON.stringify(keywords), secret ?? null, created)
+    logger.success(`add webhook ${id} of ${user}`)
+  }
+
+  async delete(user: string, id: string) {
+    await this.db.prepare(`DELETE FROM webhook WHERE user = ? AND id = ?`).run(user, id)
+    logger.success(`delete webhook ${id} of ${user}`)
+  }
+
+  async setStatus(id: string, ok: boolean, error?: string, time = Date.now()) {
+    await this.db.prepare(`UPDATE webhook SET last_status = ?, last_error = ?, last_time = ? WHERE id = ?`)
+      .run(ok ? "success" : "failed", error ?? null, time, id)
+  }
+}
+
+export async function getWebhookTable() {
+  try {
+    const db = useDatabase()
+    if (process.env.ENABLE_WEBHOOK === "false") return
+    const webhookTable = new WebhookTable(db)
+    if (process.env.INIT_TABLE !== "false") await webhookTable.init()
+    return webhookTable
+  } catch (e) {
+    logger.error("failed to init database ", e)
+  }
+}
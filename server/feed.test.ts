@@ -0,0 +1,55 @@
+import type { SourceID } from "@shared/types"
+import { describe, expect, it } from "vitest"
+import { getItemDate, parseFeedPath, renderAtom, renderJSONFeed, renderRSS } from "./feed"
+
+describe("feed", () => {
+  const meta = {
+    title: "微博-实时热搜 - NewsNow",
+    description: "热榜",
+    home: "https://weibo.com",
+    self: "https://newsnow.example/api/feed/weibo.xml",
+    updated: Date.UTC(2024, 0, 1),
+  }
+  const items = [
+    { source: "weibo" as const, item: { id: 1, title: "A & B <C>", url: "https://example.com/?a=1&b=2", pubDate: Date.UTC(2024, 0, 2) }, updated: meta.updated },
+    { source: "weibo" as const, item: { id: 2, title: "没有时间", url: "https://example.com/2" }, updated: meta.updated },
+  ]
+
+  it("解析路径", () => {
+    expect(parseFeedPath("weibo.xml")).toMatchObject({ name: "weibo", format: "rss" })
+    expect(parseFeedPath("cls-telegraph.atom")).toMatchObject({ name: "cls-telegraph", format: "atom" })
+    expect(parseFeedPath("weibo.json")).toMatchObject({ name: "weibo", format: "json" })
+    expect(parseFeedPath("weibo")).toBeUndefined()
+    expect(parseFeedPath("weibo.html")).toBeUndefined()
+  })
+
+  it("没有时间的条目用更新时间", () => {
+    expect(getItemDate(items[0])).toBe(Date.UTC(2024, 0, 2))
+    expect(getItemDate(items[1])).toBe(meta.updated)
+  })
+
+  it("rss 转义", () => {
+    const xml = renderRSS(meta, items)
+    expect(xml).toContain("<title>A &amp; B &lt;C&gt;</title>")
+    expect(xml).toContain("<link>https://example.com/?a=1&amp;b=2</link>")
+    expect(xml).toContain("<pubDate>Tue, 02 Jan 2024 00:00:00 GMT</pubDate>")
+    expect(xml).toContain(`<guid isPermaLink="false">weibo:1</guid>`)
+  })
+
+  it("atom", () => {
+    const xml = renderAtom(meta, items)
+    expect(xml).toContain(`<feed xmlns="http://www.w3.org/2005/Atom">`)
+    expect(xml).toContain("<updated>2024-01-02T00:00:00.000Z</updated>")
+  })
+
+  it("json feed", () => {
+    const feed = JSON.parse(renderJSONFeed(meta, items))
+    expect(feed.version).toBe("https://jsonfeed.org/version/1.1")
+    expect(feed.items[0]).toMatchObject({ id: "weibo:1", title: "A & B <C>", url: "https://example.com/?a=1&b=2" })
+  })
+
+  it("订阅的源用订阅的标题分类", () => {
+    const feed = JSON.parse(renderJSONFeed(meta, [{ source: "feed-abc" as SourceID, name: "阮一峰的网络日志", item: { id: 3, title: "周刊", url: "https://example.com/3" }, updated: meta.updated }]))
+    expect(feed.items[0].tags).toEqual(["阮一峰的网络日志"])
+  })
+})
@@ -0,0 +1,155 @@
+import type { NewsItem, SourceID } from "@shared/types"
+
+export type FeedFormat = "rss" | "atom" | "json"
+
+export interface FeedMeta {
+  title: string
+  description: string
+  /**
+   * 网站主页
+   */
+  home: string
+  /**
+   * 订阅地址本身
+   */
+  self: string
+  updated: number
+}
+
+export interface FeedItem {
+  source: SourceID
+  /**
+   * 订阅的 feed 源不在 sources 里，用订阅的标题
+   */
+  name?: string
+  item: NewsItem
+  /**
+   * 条目没有时间时，用数据更新时间代替
+   */
+  updated: number
+}
+
+export const feedFormats: Record<string, { format: FeedFormat, type: string }> = {
+  xml: { format: "rss", type: "application/rss+xml; charset=utf-8" },
+  rss: { format: "rss", type: "application/rss+xml; charset=utf-8" },
+  atom: { format: "atom", type: "application/atom+xml; charset=utf-8" },
+  json: { format: "json", type: "application/feed+json; charset=utf-8" },
+}
+
+/**
+ * weibo.xml 拆成 weibo 和对应的格式
+ */
+export function parseFeedPath(path = "") {
+  const i = path.lastIndexOf(".")
+  if (i === -1) return
+  const feed = feedFormats[path.slice(i + 1)]
+  if (!feed) return
+  return { name: path.slice(0, i), ...feed }
+}
+
+function escapeXML(s: string) {
+  return s.replace(/[<>&'"]/g, c => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", "'": "&apos;", "\"": "&quot;" })[c]!)
+}
+
+export function getItemDate({ item, updated }: FeedItem) {
+  const date = item.pubDate ?? item.extra?.date
+  const time = date === undefined ? Number.NaN : new Date(date).getTime()
+  return Number.isNaN(time) ? updated : time
+}
+
+export const sourceName = (id: SourceID) => sources[id]?.title ? `${sources[id].name}-${sources[id].title}` : sources[id]?.name ?? id
+const itemSource = (k: FeedItem) => k.name ?? sourceName(k.source)
+const itemID = ({ source, item }: FeedItem) => `${source}:${item.id}`
+
+export function renderRSS(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((k) => {
+    const description = k.item.extra?.hover || k.item.extra?.info
+    return [
+      `    <item>`,
+      `      <title>${escapeXML(k.item.title)}</title>`,
+      `      <link>${escapeXML(k.item.url)}</link>`,
+      `      <guid isPermaLink="false">${escapeXML(itemID(k))}</guid>`,
+      `      <pubDate>${new Date(getItemDate(k)).toUTCString()}</pubDate>`,
+      `      <category>${escapeXML(itemSource(k))}</category>`,
+      description ? `      <description>${escapeXML(description)}</description>` : "",
+      `    </item>`,
+    ].filter(Boolean).join("\n")
+  })
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">`,
+    `  <channel>`,
+    `    <title>${escapeXML(meta.title)}</title>`,
+    `    <link>${escapeXML(meta.home)}</link>`,
+    `    <description>${escapeXML(meta.description)}</description>`,
+    `    <atom:link href="${escapeXML(meta.self)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${new Date(meta.updated).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    `  </channel>`,
+    `</rss>`,
+  ].join("\n")
+}
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]) {
+  const entries = items.map((k) => {
+    const summary = k.item.extra?.hover || k.item.extra?.info
+    return [
+      `  <entry>`,
+      `    <id>urn:newsnow:${escapeXML(itemID(k))}</id>`,
+      `    <title>${escapeXML(k.item.title)}</title>`,
+      `    <link href="${escapeXML(k.item.url)}"/>`,
+      `    <updated>${new Date(getItemDate(k)).toISOString()}</updated>`,
+      `    <category term="${escapeXML(itemSource(k))}"/>`,
+      summary ? `    <summary>${escapeXML(summary)}</summary>` : "",
+      `  </entry>`,
+    ].filter(Boolean).join("\n")
+  })
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    `  <id>${escapeXML(meta.self)}</id>`,
+    `  <title>${escapeXML(meta.title)}</title>`,
+    `  <subtitle>${escapeXML(meta.description)}</subtitle>`,
+    `  <link href="${escapeXML(meta.home)}"/>`,
+    `  <link href="${escapeXML(meta.self)}" rel="self" type="application/atom+xml"/>`,
+    `  <updated>${new Date(meta.updated).toISOString()}</updated>`,
+    `  <author><name>NewsNow</name></author>`,
+    ...entries,
+    `</feed>`,
+  ].join("\n")
+}
+
+/**
+ * https://www.jsonfeed.org/version/1.1/
+ */
+export function renderJSONFeed(meta: FeedMeta, items: FeedItem[]) {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.home,
+    feed_url: meta.self,
+    items: items.map((k) => {
+      const summary = k.item.extra?.hover || k.item.extra?.info
+      return {
+        id: itemID(k),
+        url: k.item.url,
+        title: k.item.title,
+        content_text: summary || k.item.title,
+        date_published: new Date(getItemDate(k)).toISOString(),
+        tags: [itemSource(k)],
+      }
+    }),
+  })
+}
+
+export function renderFeed(format: FeedFormat, meta: FeedMeta, items: FeedItem[]) {
+  switch (format) {
+    case "atom":
+      return renderAtom(meta, items)
+    case "json":
+      return renderJSONFeed(meta, items)
+    default:
+      return renderRSS(meta, items)
+  }
+}
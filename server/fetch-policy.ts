@@ -0,0 +1,189 @@
+import process from "node:process"
+import { AsyncLocalStorage } from "node:async_hooks"
+import type { SourceID } from "@shared/types"
+import { z } from "zod"
+
+export const BuiltinProfiles: Record<string, Record<string, string>> = {
+  desktop: {
+    "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36",
+  },
+  mobile: {
+    "User-Agent": "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+  },
+}
+
+const policySchema = z.object({
+  /**
+   * 同时进行的请求数
+   */
+  concurrency: z.number().int().positive().optional(),
+  /**
+   * 每分钟最多请求几次，请求会均匀地排开
+   */
+  rate: z.number().positive().optional(),
+  /**
+   * 代理地址，或者 proxies 里的名字，支持 http、https、socks5、socks5h
+   */
+  proxy: z.string().optional(),
+  /**
+   * profiles 里的名字，内置 desktop 和 mobile
+   */
+  profile: z.string().optional(),
+  headers: z.record(z.string()).optional(),
+  timeout: z.number().int().positive().optional(),
+  retry: z.number().int().min(0).optional(),
+}).strict()
+
+export type FetchPolicy = z.infer<typeof policySchema>
+
+const ProxyProtocols = ["http:", "https:", "socks5:", "socks5h:"]
+
+export const fetchPolicyConfigSchema = z.object({
+  default: policySchema.optional(),
+  /**
+   * 按域名，*.example.com 同时匹配 example.com 和它的子域名
+   */
+  hosts: z.record(policySchema).optional(),
+  /**
+   * 按源 id，比 hosts 优先
+   */
+  sources: z.record(policySchema).optional(),
+  profiles: z.record(z.record(z.string())).optional(),
+  proxies: z.record(z.string()).optional(),
+}).strict().superRefine((config, ctx) => {
+  const proxyURL = (proxy: string) => config.proxies?.[proxy] ?? proxy
+  Object.entries(config.proxies ?? {}).forEach(([name, url]) => {
+    if (!URL.canParse(url) || !ProxyProtocols.includes(new URL(url).protocol)) {
+      ctx.addIssue({ code: "custom", path: ["proxies", name], message: `Unsupported proxy ${url}` })
+    }
+  })
+  const check = (policy: FetchPolicy | undefined, path: string[]) => {
+    if (policy?.profile && !config.profiles?.[policy.profile] && !BuiltinProfiles[policy.profile]) {
+      ctx.addIssue({ code: "custom", path: [...path, "profile"], message: `Unknown profile ${policy.profile}` })
+    }
+    if (policy?.proxy && (!URL.canParse(proxyURL(policy.proxy)) || !ProxyProtocols.includes(new URL(proxyURL(policy.proxy)).protocol))) {
+      ctx.addIssue({ code: "custom", path: [...path, "proxy"], message: `Unknown proxy ${policy.proxy}` })
+    }
+  }
+  check(config.default, ["default"])
+  Object.entries(config.hosts ?? {}).forEach(([host, policy]) => check(policy, ["hosts", host]))
+  Object.entries(config.sources ?? {}).forEach(([id, policy]) => check(policy, ["sources", id]))
+})
+
+export type FetchPolicyConfig = z.infer<typeof fetchPolicyConfigSchema>
+
+/**
+ * FETCH_POLICY 是一段 json，格式错误时不生效，全部用默认
+ */
+export function parseFetchPolicy(json?: string): FetchPolicyConfig {
+  if (!json?.trim()) return {}
+  try {
+    return fetchPolicyConfigSchema.parse(JSON.parse(json))
+  } catch (e) {
+    logger.error("invalid FETCH_POLICY, ignored", e)
+    return {}
+  }
+}
+
+let config: FetchPolicyConfig | undefined
+function getFetchPolicyConfig() {
+  if (!config) config = parseFetchPolicy(process.env.FETCH_POLICY)
+  return config
+}
+
+function matchHost(pattern: string, host: string) {
+  if (pattern.startsWith("*.")) return host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+  return host === pattern
+}
+
+export interface ResolvedPolicy {
+  headers: Record<string, string>
+  /**
+   * 调用方已经设置的头不覆盖，比如 getter 里写的 UA
+   */
+  profile: Record<string, string>
+  proxy?: string
+  timeout?: number
+  retry?: number
+  /**
+   * 每条规则各自限流，key 是规则，域名规则里的通配符共用一个
+   */
+  limits: { key: string, concurrency?: number, rate?: number }[]
+}
+
+/**
+ * 按 default、通配域名、域名、源 id 的顺序合并，后面的覆盖前面的
+ */
+export function resolveFetchPolicy({ host, source }: { host: string, source?: SourceID }, config = getFetchPolicyConfig()): ResolvedPolicy {
+  const hosts = Object.entries(config.hosts ?? {})
+    .filter(([pattern]) => matchHost(pattern, host))
+    .sort(([a], [b]) => Number(!a.startsWith("*.")) - Number(!b.startsWith("*.")) || a.length - b.length)
+  const matched: [string, FetchPolicy][] = [
+    ...config.default ? [[`default:${host}`, config.default] as [string, FetchPolicy]] : [],
+    ...hosts.map(([pattern, policy]) => [`host:${pattern}`, policy] as [string, FetchPolicy]),
+    ...source && config.sources?.[source] ? [[`source:${source}`, config.sources[source]] as [string, FetchPolicy]] : [],
+  ]
+  const resolved: ResolvedPolicy = { headers: {}, profile: BuiltinProfiles.desktop, limits: [] }
+  matched.forEach(([key, policy]) => {
+    if (policy.profile) resolved.profile = config.profiles?.[policy.profile] ?? BuiltinProfiles[policy.profile]
+    if (policy.headers) Object.assign(resolved.headers, policy.headers)
+    if (policy.proxy) resolved.proxy = config.proxies?.[policy.proxy] ?? policy.proxy
+    if (policy.timeout) resolved.timeout = policy.timeout
+    if (policy.retry !== undefined) resolved.retry = policy.retry
+    if (policy.concurrency || policy.rate) resolved.limits.push({ key, concurrency: policy.concurrency, rate: policy.rate })
+  })
+  return resolved
+}
+
+interface LimiterState {
+  active: number
+  /**
+   * 下一次允许开始请求的时间
+   */
+  next: number
+  queue: (() => void)[]
+}
+
+const limiters = new Map<string, LimiterState>()
+
+/**
+ * 等到并发和频率都允许时占一个位置，请求结束后要 releaseLimit
+ */
+export async function acquireLimit({ key, concurrency, rate }: ResolvedPolicy["limits"][number]) {
+  let state = limiters.get(key)
+  if (!state) limiters.set(key, state = { active: 0, next: 0, queue: [] })
+  while (true) {
+    if (concurrency && state.active >= concurrency) {
+      await new Promise<void>(resolve => state.queue.push(resolve))
+      continue
+    }
+    const wait = rate ? state.next - Date.now() : 0
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+      continue
+    }
+    state.active++
+    if (rate) state.next = Date.now() + 60 * 1000 / rate
+    return
+  }
+}
+
+export function releaseLimit(key: string) {
+  const state = limiters.get(key)
+  if (!state) return
+  state.active = Math.max(0, state.active - 1)
+  state.queue.shift()?.()
+}
+
+const sourceContext = new AsyncLocalStorage<SourceID>()
+
+/**
+ * getter 在这里面执行，它发出的请求才能按源 id 匹配策略
+ */
+export function runWithSource<T>(id: SourceID, fn: () => T) {
+  return sourceContext.run(id, fn)
+}
+
+export function currentSource() {
+  return sourceContext.getStore()
+}
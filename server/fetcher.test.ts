@@ -0,0 +1,119 @@
+import { createDatabase } from "db0"
+import sqlite from "db0/connectors/better-sqlite3"
+import type { SourceID } from "@shared/types"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { fetchLatest } from "./fetcher"
+import { getCacheStore } from "./database/cache"
+import { getLeaseTable } from "./database/lease"
+import { recordFailure } from "./breaker"
+import { FederatedHeader } from "./upstream"
+
+// getters 靠 rollup 插件导入全部源，这里每个用例自己传 getter
+vi.mock("./getters", () => ({ getters: {} }))
+
+describe("fetcher upstream fallback", () => {
+  const local = [{ id: "local", title: "本地", url: "https://example.com/local" }]
+  const remote = [{ id: "remote", title: "上游", url: "https://example.com/remote" }]
+  const upstream = { instance: "https://peer.com", updatedTime: 1000 }
+  const failing = async () => Promise.reject(new Error("blocked"))
+  let requests: Request[] = []
+
+  beforeEach(() => {
+    // 每个用例一个新库，互不影响
+    const db = createDatabase(sqlite({ name: ":memory:" }))
+    vi.stubGlobal("useDatabase", () => db)
+    vi.stubEnv("UPSTREAM_INSTANCES", upstream.instance)
+    requests = []
+    vi.stubGlobal("fetch", vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const request = new Request(input, init)
+      requests.push(request)
+      const id = new URL(request.url).searchParams.get("id")
+      return Response.json({ status: "cache", id, updatedTime: upstream.updatedTime, items: remote })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("本地拉取失败时用上游的数据，按上游的时间缓存", async () => {
+    const id: SourceID = "v2ex-share"
+    const result = await fetchLatest(id, { getter: failing })
+    expect(result).toEqual({ id, items: remote, updated: upstream.updatedTime, upstream })
+    expect(requests[0].headers.get(FederatedHeader)).toBe("1")
+    expect(await (await getCacheStore())!.get(id)).toMatchObject({ items: remote, updated: upstream.updatedTime, upstream })
+  })
+
+  it("本地成功时不找上游", async () => {
+    const id: SourceID = "hackernews"
+    expect(await fetchLatest(id, { getter: async () => local })).toMatchObject({ items: local, upstream: undefined })
+    expect(requests).toHaveLength(0)
+  })
+
+  it("本地禁用的源直接找上游", async () => {
+    vi.stubEnv("CF_PAGES", "1")
+    const id: SourceID = "36kr"
+    const getter = vi.fn(async () => local)
+    expect((await fetchLatest(id, { getter })).items).toEqual(remote)
+    expect(getter).not.toHaveBeenCalled()
+  })
+
+  it("熔断中不在本地拉取", async () => {
+    const id: SourceID = "juejin"
+    ;[1, 2, 3].forEach(() => recordFailure(id))
+    const getter = vi.fn(async () => local)
+    expect((await fetchLatest(id, { getter })).items).toEqual(remote)
+    expect(getter).not.toHaveBeenCalled()
+  })
+
+  it("其他实例转来的请求不再转给上游", async () => {
+    const id: SourceID = "solidot"
+    await expect(fetchLatest(id, { getter: failing, federated: true })).rejects.toThrow("blocked")
+    expect(requests).toHaveLength(0)
+  })
+
+  it("上游也失败时报本地的错误", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 404 })))
+    await expect(fetchLatest("sspai", { getter: failing })).rejects.toThrow("blocked")
+  })
+})
+
+describe("fetcher coalescing", () => {
+  const items = [{ id: "a", title: "a", url: "https://example.com/a" }]
+
+  beforeEach(() => {
+    const db = createDatabase(sqlite({ name: ":memory:" }))
+    vi.stubGlobal("useDatabase", () => db)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("同一个源并发拉取时共用一次", async () => {
+    const getter = vi.fn(async () => {
+      await delay(10)
+      return items
+    })
+    const [a, b] = await Promise.all([fetchLatest("zhihu", { getter }), fetchLatest("zhihu", { getter })])
+    expect(getter).toHaveBeenCalledTimes(1)
+    expect(b).toBe(a)
+    // 拉完之后再调用会重新拉取
+    await fetchLatest("zhihu", { getter })
+    expect(getter).toHaveBeenCalledTimes(2)
+  })
+
+  it("其他实例拿着租约时等它写入缓存", async () => {
+    vi.stubEnv("ENABLE_LEASE", "true")
+    const id: SourceID = "weibo"
+    const now = Date.now()
+    await (await getLeaseTable())!.acquire(id, "peer", 60 * 1000)
+    const getter = vi.fn(async () => items)
+    const peer = delay(100).then(async () => (await getCacheStore())!.set(id, items, { updated: now }))
+    expect(await fetchLatest(id, { getter, now })).toMatchObject({ id, items, updated: now })
+    expect(getter).not.toHaveBeenCalled()
+    await peer
+  })
+})
@@ -0,0 +1,337 @@
+import process from "node:process"
+import type { SourceID, SourceResponse, SourceUpstream } from "@shared/types"
+import type { H3Event } from "h3"
+import { getters } from "./getters"
+import { allowRequest, getBreaker, recordFailure, recordSuccess } from "./breaker"
+import { publish } from "./stream"
+import { syntheticSources } from "./cluster"
+import { checkAlerts } from "./alert"
+import { dispatchWebhooks } from "./webhook"
+import { getCacheStore } from "./database/cache"
+import { getHealthTable } from "./database/health"
+import { getHistoryTable } from "./database/history"
+import { getLeaseTable } from "./database/lease"
+import { getRankTable } from "./database/rank"
+import { getSearchTable } from "./database/search"
+import { getDriftTable } from "./database/drift"
+import type { ValidateResult } from "./validate"
+import { validateItems } from "./validate"
+import { runWithSource } from "./fetch-policy"
+import { fetchUpstream, getUpstreamInstances, isDisabledLocally, upstreamUpdatedTime } from "./upstream"
+import type { CacheInfo, SourceGetter } from "./types"
+
+interface FetchOption {
+  now?: number
+  /**
+   * 用户订阅的源不在 getters 里，要传进来
+   */
+  getter?: SourceGetter
+  /**
+   * 有 event 时，在 cloudflare 中写库放到 waitUntil 里
+   */
+  event?: H3Event
+  /**
+   * 其他实例转来的请求，不再找上游
+   */
+  federated?: boolean
+}
+
+// myFetch 10s 超时，重试 3 次
+const LeaseTTL = 45 * 1000
+// 等其他实例拉取的最长时间，超时就自己拉
+const LeaseWait = 10 * 1000
+const instanceID = randomUUID()
+
+/**
+ * 校验 id，子源的父 id 会重定向到第一个子源
+ */
+export function resolveSourceID(id?: SourceID): SourceID | undefined {
+  const isValid = (id?: SourceID) => !!id && !!sources[id] && !!getters[id]
+  if (isValid(id)) return id
+  const redirectID = id && sources?.[id]?.redirect
+  if (isValid(redirectID)) return redirectID
+}
+
+interface ResponseOption {
+  /**
+   * 在 TTL 内也强制拉取最新
+   */
+  latest?: boolean
+  event?: H3Event
+  getter?: SourceGetter
+  federated?: boolean
+}
+
+interface ResolvedSource {
+  response: SourceResponse
+  /**
+   * 数据真正拉取的时间，interval 内返回的 updatedTime 是 now，不能用来算缓存时间
+   */
+  updated: number
+}
+
+/**
+ * 缓存还新就用缓存，否则拉取最新，拉取失败再退回缓存
+ */
+export async function getSourceResponse(id: SourceID, option: ResponseOption = {}): Promise<SourceResponse> {
+  return (await resolveSource(id, option)).response
+}
+
+export async function resolveSource(id: SourceID, { latest, event, getter, federated }: ResponseOption = {}): Promise<ResolvedSource> {
+  const cacheStore = await getCacheStore()
+  // Date.now() in Cloudflare Worker will not update throughout the entire runtime.
+  const now = Date.now()
+  let cache: CacheInfo | undefined
+  if (cacheStore) {
+    cache = await cacheStore.get(id)
+    if (cache) {
+    // if (cache) {
+      // interval 刷新间隔，对于缓存失效也要执行的。本质上表示本来内容更新就很慢，这个间隔内可能内容压根不会更新。
+      // 默认 10 分钟，是低于 TTL 的，但部分 Source 的更新间隔会超过 TTL，甚至有的一天更新一次。
+      if (now - cache.updated < (sources[id]?.interval ?? Interval)) {
+        return {
+          response: {
+            status: "success",
+            id,
+            updatedTime: now,
+            items: cache.items,
+            upstream: cache.upstream,
+          },
+          updated: cache.updated,
+        }
+      }
+
+      // 而 TTL 缓存失效时间，在时间范围内，就算内容更新了也要用这个缓存。
+      // 复用缓存是不会更新时间的。
+      if (now - cache.updated < TTL && !latest) {
+        return {
+          response: {
+            status: "cache",
+            id,
+            updatedTime: cache.updated,
+            items: cache.items,
+            upstream: cache.upstream,
+          },
+          updated: cache.updated,
+        }
+      }
+    }
+  }
+
+  // 熔断中直接用缓存，不用再等上游超时
+  const breaker = getBreaker(id, now)
+  if (breaker?.state === "open" && !canFederate(id, federated)) {
+    if (cache) {
+      return {
+        response: {
+          status: "cache",
+          id,
+          updatedTime: cache.updated,
+          items: cache.items,
+          breaker,
+          upstream: cache.upstream,
+        },
+        updated: cache.updated,
+      }
+    }
+    throw new Error(`${id} is temporarily unavailable`)
+  }
+
+  try {
+    const fresh = await fetchLatest(id, { now, event, getter, federated })
+    return {
+      response: {
+        status: "success",
+        id,
+        updatedTime: fresh.updated,
+        items: fresh.items,
+        upstream: fresh.upstream,
+      },
+      updated: fresh.updated,
+    }
+  } catch (e) {
+    if (cache!) {
+      return {
+        response: {
+          status: "cache",
+          id,
+          updatedTime: cache.updated,
+          items: cache.items,
+          breaker: getBreaker(id),
+          upstream: cache.upstream,
+        },
+        updated: cache.updated,
+      }
+    } else {
+      throw e
+    }
+  }
+}
+
+const inflight = new Map<SourceID, Promise<CacheInfo>>()
+
+/**
+ * 配置了上游的内置源，本地禁用、熔断或者拉取失败时可以从上游拿
+ */
+function canFederate(id: SourceID, federated?: boolean) {
+  return !federated && !!sources[id] && getUpstreamInstances().length > 0
+}
+
+/**
+ * 调用 getter 拉取最新数据，校验后写入缓存、历史快照、排名和全文索引，检查提醒规则和 webhook，再推送给订阅者。
+ * 同一个源并发调用时共用同一次拉取。
+ */
+export function fetchLatest(id: SourceID, option: FetchOption = {}): Promise<CacheInfo> {
+  const running = inflight.get(id)
+  if (running) {
+    logger.info(`join in-flight fetch of ${id}`)
+    return running
+  }
+  if (!allowRequest(id) && !canFederate(id, option.federated)) return Promise.reject(new Error(`${id} is temporarily unavailable`))
+  const task = fetchWithLease(id, option).finally(() => inflight.delete(id))
+  inflight.set(id, task)
+  return task
+}
+
+async function fetchWithLease(id: SourceID, option: FetchOption) {
+  const leaseTable = await getLeaseTable()
+  if (!leaseTable) return await fetchAndStore(id, option)
+
+  if (!(await leaseTable.acquire(id, instanceID, LeaseTTL))) {
+    const cache = await waitForPeer(id, option.now ?? Date.now())
+    if (cache) return cache
+    logger.warn(`wait for ${id} from other instance timeout`)
+  }
+  try {
+    return await fetchAndStore(id, option)
+  } finally {
+    await leaseTable.release(id, instanceID)
+  }
+}
+
+/**
+ * 其他实例正在拉取，轮询缓存直到它写入。上游的数据按上游的时间写入，可能早于 since，所以缓存有变化也算
+ */
+async function waitForPeer(id: SourceID, since: number) {
+  const cacheStore = await getCacheStore()
+  if (!cacheStore) return
+  const before = (await cacheStore.get(id))?.updated
+  const deadline = Date.now() + LeaseWait
+  while (Date.now() < deadline) {
+    await delay(500)
+    const cache = await cacheStore.get(id)
+    if (cache && (cache.updated >= since || cache.updated !== before)) return cache
+  }
+}
+
+async function fetchAndStore(id: SourceID, { now = Date.now(), event, getter = getters[id], federated }: FetchOption): Promise<CacheInfo> {
+  const background = async (task: Promise<unknown>) => {
+    if (event?.context.waitUntil) event.context.waitUntil(task)
+    else await task
+  }
+  // 推送可能要重试几十秒，不能拖住请求。node 上不等，cloudflare 和 vercel 响应后进程就停了，只能用 waitUntil 或者等完
+  const detach = async (task: Promise<unknown>) => {
+    if (event?.context.waitUntil || process.env.CF_PAGES || process.env.VERCEL) await background(task)
+    else task.catch(logger.error)
+  }
+  // 用户订阅的源只写缓存，不进健康统计、历史、索引，也不触发提醒和 webhook
+  const builtin = !!sources[id]
+  const healthTable = builtin && await getHealthTable()
+  const federate = canFederate(id, federated)
+  let validated: ValidateResult | undefined
+  let localError: unknown
+  // 能找上游时，本地禁用或者熔断中就不用本地拉取了
+  if (!federate || (!isDisabledLocally(id) && allowRequest(id))) {
+    const start = Date.now()
+    try {
+      // 不合格的条目在写缓存前就丢掉
+      validated = validateItems(await runWithSource(id, getter))
+    } catch (e) {
+      recordFailure(id)
+      if (healthTable) {
+        await background(healthTable.add(id, {
+          ok: false,
+          latency: Date.now() - start,
+          count: 0,
+          error: e instanceof Error ? e.message : String(e),
+        }))
+      }
+      if (!federate) throw e
+      localError = e
+    }
+    if (validated) {
+      recordSuccess(id)
+      const count = Math.min(validated.items.length, 30)
+      if (healthTable) {
+        // 选择器失效时往往不报错，只是什么都拿不到
+        await background(healthTable.add(id, {
+          ok: count > 0,
+          latency: Date.now() - start,
+          count,
+          error: count ? undefined : "Empty result",
+        }))
+      }
+      // 只去掉了日期的也记下来，日期格式变了一样要改选择器
+      if (validated.dropped || validated.stripped) {
+        logger.warn(`drop ${validated.dropped} and strip ${validated.stripped} invalid items of ${id}: ${JSON.stringify(validated.fields)}`)
+        const driftTable = builtin && await getDriftTable()
+        if (driftTable) {
+          await background(driftTable.add(id, {
+            dropped: validated.dropped,
+            total: validated.items.length + validated.dropped,
+            fields: validated.fields,
+          }))
+        }
+      }
+    }
+  }
+
+  // 本地拿不到数据时找上游，上游也失败就报本地的错误
+  let upstream: SourceUpstream | undefined
+  if (federate && !validated?.items.length) {
+    try {
+      const res = await fetchUpstream(id)
+      validated = validateItems(res.items)
+      upstream = res.upstream
+    } catch (e) {
+      logger.warn(e)
+      if (!validated) throw localError ?? e
+    }
+  }
+  if (!validated) throw localError
+  const newData = validated.items.slice(0, 30)
+  // 上游可能返回的是它自己的旧缓存，要按上游的更新时间算，不然会被当成新的再缓存一个 TTL
+  const updated = upstream ? upstreamUpdatedTime(upstream, now) : now
+
+  if (newData.length) {
+    const cacheStore = await getCacheStore()
+    // 写入前先取出旧数据，用来判断哪些是新条目
+    const prev = cacheStore && await cacheStore.get(id)
+    if (cacheStore) await background(cacheStore.set(id, newData, { updated, upstream }))
+    const historyTable = builtin && await getHistoryTable()
+    if (historyTable) await background(historyTable.add(id, newData, now))
+    // 合成的源和原来的条目重复，不用再索引和提醒
+    const searchTable = builtin && !syntheticSources.includes(id) && await getSearchTable()
+    if (searchTable) await background(searchTable.add(id, newData, now))
+    if (builtin && !syntheticSources.includes(id)) {
+      await detach(checkAlerts(id, newData))
+      // 第一次拉取没有旧数据可比，不推送
+      const seen = new Set(prev?.items.map(k => k.id))
+      const fresh = newData.filter(k => !seen.has(k.id))
+      if (prev && fresh.length) await detach(dispatchWebhooks(id, fresh))
+    }
+    if (sources[id]?.type === "hottest") {
+      const rankTable = await getRankTable()
+      if (rankTable) await background(rankTable.add(id, newData, now))
+    }
+    publish({
+      status: "success",
+      id,
+      updatedTime: updated,
+      items: newData,
+      upstream,
+    })
+  }
+  logger.success(`fetch ${id} latest`)
+  return { id, items: newData, updated, upstream }
+}
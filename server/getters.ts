@@ -3,13 +3,10 @@ import * as x from "glob:./sources/{*.ts,**/index.ts}"
 import type { SourceGetter } from "./types"
 
 export const getters = (function () {
-  const getters = {} as Record<SourceID, SourceGetter>
-  typeSafeObjectEntries(x).forEach(([id, x]) => {
-    if (x.default instanceof Function) {
-      Object.assign(getters, { [id]: x.default })
-    } else {
-      Object.assign(getters, x.default)
-    }
+  const getters = collectGetters(x) as Record<SourceID, SourceGetter>
+  // 配置文件声明的源，和内置的重名时用内置的
+  Object.entries(scraperSources).forEach(([id, source]) => {
+    if (!getters[id as SourceID]) Object.assign(getters, { [id]: defineScraperSource(source.scraper) })
   })
   return getters
 })()
@@ -0,0 +1,101 @@
+import { readFileSync, readdirSync } from "node:fs"
+import { join } from "node:path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { projectDir } from "../shared/dir"
+import { MaxPictureSize, assertPublicHost, fetchPicture, isAllowedPictureHost, isPrivateAddress, snapPictureHeight } from "./image-proxy"
+
+describe("image proxy", () => {
+  it("每个调用 proxyPicture 的源都声明了图片域名", () => {
+    const dir = join(projectDir, "server", "sources")
+    const callers = readdirSync(dir, { recursive: true, encoding: "utf-8" })
+      .filter(file => file.endsWith(".ts") && readFileSync(join(dir, file), "utf-8").includes("proxyPicture("))
+      .map(file => file.split(/[/\\]/)[0].replace(/\.ts$/, ""))
+    expect(callers.length).toBeGreaterThan(0)
+    callers.forEach(id => expect(
+      Object.entries(sources).some(([k, source]) => (k === id || k.startsWith(`${id}-`)) && source.pictureHosts?.length),
+      id,
+    ).toBe(true))
+  })
+
+  it("只放行声明过或者见过的域名", () => {
+    expect(isAllowedPictureHost("i0.hdslb.com")).toBe(true)
+    expect(isAllowedPictureHost("hdslb.com")).toBe(true)
+    expect(isAllowedPictureHost("evilhdslb.com")).toBe(false)
+    expect(isAllowedPictureHost("169.254.169.254")).toBe(false)
+    proxyPicture("https://img.example.com/a.png")
+    expect(isAllowedPictureHost("img.example.com")).toBe(true)
+  })
+
+  it("见过的域名有数量上限", () => {
+    proxyPicture("https://first.example.com/a.png")
+    for (let i = 0; i < 500; i++) proxyPicture(`https://img${i}.example.org/a.png`)
+    expect(isAllowedPictureHost("first.example.com")).toBe(false)
+    expect(isAllowedPictureHost("img499.example.org")).toBe(true)
+  })
+
+  it("识别内网地址", () => {
+    ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:10.0.0.1"]
+      .forEach(ip => expect(isPrivateAddress(ip), ip).toBe(true))
+    ;["1.1.1.1", "172.32.0.1", "100.128.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]
+      .forEach(ip => expect(isPrivateAddress(ip), ip).toBe(false))
+  })
+
+  it("拒绝指向内网的地址", async () => {
+    await expect(assertPublicHost("localhost")).rejects.toThrow("Private host")
+    await expect(assertPublicHost("[::1]")).rejects.toThrow("Private host")
+    await expect(assertPublicHost("192.168.0.1")).rejects.toThrow("Private host")
+    await expect(assertPublicHost("8.8.8.8")).resolves.toBeUndefined()
+  })
+
+  it("缩放高度取到固定的几档", () => {
+    expect(snapPictureHeight(Number(undefined))).toBeUndefined()
+    expect(snapPictureHeight(0)).toBeUndefined()
+    expect(snapPictureHeight(20)).toBe(32)
+    expect(snapPictureHeight(48)).toBe(48)
+    expect(snapPictureHeight(4000)).toBe(128)
+  })
+
+  describe("fetchPicture", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    const image = (body: ConstructorParameters<typeof Response>[0], headers: Record<string, string> = {}) => new Response(body, { headers: { "content-type": "image/png", ...headers } })
+
+    it("content-length 超过上限时不读响应", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => image("x", { "content-length": String(MaxPictureSize + 1) })))
+      await expect(fetchPicture("https://i0.hdslb.com/a.png")).rejects.toMatchObject({ statusCode: 413 })
+    })
+
+    it("没有 content-length 时读到上限就断开", async () => {
+      const cancel = vi.fn()
+      const chunk = new Uint8Array(1024 * 1024)
+      let sent = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent++
+          controller.enqueue(chunk)
+        },
+        cancel,
+      })
+      vi.stubGlobal("fetch", vi.fn(async () => image(body)))
+      await expect(fetchPicture("https://i0.hdslb.com/a.png")).rejects.toMatchObject({ statusCode: 413 })
+      expect(cancel).toHaveBeenCalled()
+      expect(sent).toBeLessThan(10)
+    })
+
+    it("跳转到白名单外或者内网时拒绝", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 302, headers: { location: "https://evil.com/a.png" } })))
+      await expect(fetchPicture("https://i0.hdslb.com/a.png")).rejects.toMatchObject({ statusCode: 403 })
+      proxyPicture("http://127.0.0.1/a.png")
+      await expect(fetchPicture("http://127.0.0.1/a.png")).rejects.toMatchObject({ statusCode: 403 })
+    })
+
+    it("返回图片", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => image("png")))
+      const picture = await fetchPicture("https://i0.hdslb.com/a.png")
+      expect(picture.type).toBe("image/png")
+      expect(picture.data.toString()).toBe("png")
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import process from "node:process"
+import { Buffer } from "node:buffer"
+import net from "node:net"
+import { createError } from "h3"
+
+/**
+ * 源元数据里声明的图片域名，调用 proxyPicture 的源要写 pictureHosts
+ */
+export const pictureHostPatterns = [...new Set(Object.values(sources).flatMap(source => source.pictureHosts ?? []))]
+
+// 运行中 proxyPicture 见过的域名也放行，数量有上限，超出时丢掉最早的
+const MaxLearnedHosts = 500
+const learnedHosts = new Set<string>()
+
+export function learnPictureHost(url: string) {
+  if (!URL.canParse(url)) return
+  const host = new URL(url).hostname
+  learnedHosts.delete(host)
+  learnedHosts.add(host)
+  if (learnedHosts.size > MaxLearnedHosts) learnedHosts.delete(learnedHosts.values().next().value!)
+}
+
+export function isAllowedPictureHost(host: string) {
+  if (learnedHosts.has(host)) return true
+  return pictureHostPatterns.some(pattern => pattern.startsWith("*.")
+    ? host === pattern.slice(2) || host.endsWith(pattern.slice(1))
+    : host === pattern)
+}
+
+function ipv4Private(ip: string) {
+  const [a, b] = ip.split(".").map(Number)
+  return a === 0 // 0.0.0.0/8
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b < 128) // CGNAT
+    || (a === 169 && b === 254) // link-local，包括云服务的元数据地址
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19)) // 测试网段
+    || a >= 224 // 组播和保留
+}
+
+/**
+ * 回环、内网、链路本地、组播等不能从公网访问的地址
+ */
+export function isPrivateAddress(ip: string) {
+  if (net.isIPv4(ip)) return ipv4Private(ip)
+  if (!net.isIPv6(ip)) return false
+  const lower = ip.toLowerCase()
+  // ::ffff:10.0.0.1 这种映射的 v4 地址
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return ipv4Private(mapped[1])
+  return lower === "::" || lower === "::1"
+    || /^f[cd]/.test(lower) // 唯一本地地址
+    || /^fe[89ab]/.test(lower) // 链路本地
+    || lower.startsWith("ff") // 组播
+}
+
+/**
+ * localhost 或者字面上就是内网 ip，不用解析
+ */
+export function isPrivateHost(host: string) {
+  const hostname = host.replace(/^\[|\]$/g, "")
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) return true
+  return isPrivateAddress(hostname)
+}
+
+/**
+ * 域名要解析后逐个检查地址，防止指向内网。cloudflare 和 vercel 上没有 dns 模块，也访问不到内网，只检查字面 ip。
+ * 这里解析完，真正请求时还会再解析一次，域名在两次之间换指向（DNS rebinding）是挡不住的
+ */
+export async function assertPublicHost(host: string) {
+  const hostname = host.replace(/^\[|\]$/g, "")
+  if (isPrivateHost(hostname)) throw new Error(`Private host ${host}`)
+  if (net.isIP(hostname) || process.env.CF_PAGES || process.env.VERCEL) return
+  const { lookup } = await import("node:dns/promises")
+  const addresses = await lookup(hostname, { all: true })
+  if (!addresses.length || addresses.some(k => isPrivateAddress(k.address))) throw new Error(`Private host ${host}`)
+}
+
+export const MaxPictureSize = 5 * 1024 * 1024
+const MaxRedirects = 3
+
+/**
+ * 边读边数，超过上限就断开，不把整个响应读进内存
+ */
+async function readPicture(body: ReadableStream<Uint8Array> | null) {
+  const chunks: Uint8Array[] = []
+  let size = 0
+  if (!body) return Buffer.alloc(0)
+  const reader = body.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MaxPictureSize) {
+      await reader.cancel()
+      throw createError({ statusCode: 413, message: "Image too large" })
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * 只代理 http(s) 的图片，每次跳转都重新检查域名。svg 可以带脚本，不代理。
+ * 真正的防线是域名白名单，白名单里只有图床和 getter 见过的域名。解析域名再请求挡不住 DNS rebinding，
+ * 所以这里只拦字面上的内网地址，不多解析一次
+ */
+export async function fetchPicture(url: string) {
+  let target = url
+  for (let redirects = 0; redirects <= MaxRedirects; redirects++) {
+    if (!URL.canParse(target)) throw createError({ statusCode: 400, message: "Invalid url" })
+    const { protocol, hostname } = new URL(target)
+    if (!["http:", "https:"].includes(protocol)) throw createError({ statusCode: 400, message: "Invalid url" })
+    if (!isAllowedPictureHost(hostname)) throw createError({ statusCode: 403, message: `Host ${hostname} is not allowed` })
+    if (isPrivateHost(hostname)) throw createError({ statusCode: 403, message: `Private host ${hostname}` })
+    const res = await myFetch.raw(target, {
+      responseType: "stream",
+      redirect: "manual",
+      ignoreResponseError: true,
+      retry: 1,
+    })
+    const location = res.headers.get("location")
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel()
+      target = new URL(location, target).href
+      continue
+    }
+    const reject = async (statusCode: number, message: string) => {
+      await res.body?.cancel()
+      return createError({ statusCode, message })
+    }
+    if (!res.ok) throw await reject(502, `Upstream responded ${res.status}`)
+    const type = res.headers.get("content-type")?.split(";")[0].trim().toLowerCase() ?? ""
+    if (!type.startsWith("image/") || type === "image/svg+xml") throw await reject(415, `Unsupported content type ${type || "unknown"}`)
+    if (Number(res.headers.get("content-length")) > MaxPictureSize) throw await reject(413, "Image too large")
+    return { type, data: await readPicture(res.body) }
+  }
+  throw createError({ statusCode: 502, message: "Too many redirects" })
+}
+
+/**
+ * 卡片里的图标只有十几像素高，按高度缩小，向上取到这几档，免得缓存太多份
+ */
+export const PictureHeights = [16, 32, 48, 64, 96, 128]
+
+export function snapPictureHeight(height?: number) {
+  if (!height || !Number.isFinite(height) || height <= 0) return
+  return PictureHeights.find(k => k >= height) ?? PictureHeights.at(-1)
+}
+
+/**
+ * 有 sharp 时转成 webp 并缩小，没有（比如 cloudflare）或者失败时原样返回
+ */
+export async function resizePicture(picture: { type: string, data: Buffer }, height: number) {
+  if (process.env.CF_PAGES || process.env.VERCEL) return picture
+  try {
+    const { default: sharp } = await import("sharp")
+    const data = await sharp(picture.data, { animated: true })
+      .resize({ height, withoutEnlargement: true })
+      .webp()
+      .toBuffer()
+    return { type: "image/webp", data }
+  } catch (e) {
+    logger.warn(`failed to resize picture`, e)
+    return picture
+  }
+}
@@ -15,7 +15,7 @@ export function getServer() {
 
   server.tool(
     "get_hotest_latest_news",
-    `get hotest or latest news from source by {id}, return {count: 10} news.`,
+    `get hotest or latest news from source by {id}, return {count: 10} news. use id "trending" to get hottest news merged from all platforms.`,
     {
       id: z.string().describe(`source id. e.g. ${description}`),
       count: z.any().default(10).describe("count of news to return."),
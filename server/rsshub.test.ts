@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { fetchRSSHub, getRSSHubInstances, getRSSHubStatus, rankRSSHubInstances, recordRSSHubFailure, recordRSSHubSuccess } from "./rsshub"
+
+describe("rsshub", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("读取配置的实例", () => {
+    expect(getRSSHubInstances("https://a.com/, http://b.com\nftp://c.com https://a.com")).toEqual(["https://a.com", "http://b.com"])
+    expect(getRSSHubInstances("")).toEqual(["https://rsshub.rssforever.com", "https://rsshub.pseudoyu.com"])
+  })
+
+  it("按冷却和响应时间排序", () => {
+    const now = 1_000_000
+    const instances = ["https://r1.com", "https://r2.com", "https://r3.com"]
+    expect(rankRSSHubInstances(instances, now)).toEqual(instances)
+    recordRSSHubSuccess("https://r1.com", 500)
+    recordRSSHubSuccess("https://r2.com", 100)
+    recordRSSHubSuccess("https://r3.com", 300)
+    expect(rankRSSHubInstances(instances, now)).toEqual(["https://r2.com", "https://r3.com", "https://r1.com"])
+    recordRSSHubFailure("https://r2.com", now)
+    expect(rankRSSHubInstances(instances, now)).toEqual(["https://r3.com", "https://r1.com", "https://r2.com"])
+    // 冷却一分钟后回到原来的位置
+    expect(rankRSSHubInstances(instances, now + 60 * 1000)).toEqual(["https://r2.com", "https://r3.com", "https://r1.com"])
+  })
+
+  it("失败时切换到下一个实例并记录", async () => {
+    vi.stubEnv("RSSHUB_INSTANCES", "https://down.com,https://self.com/rsshub")
+    const fetch = vi.fn(async (input: string | URL | Request) => {
+      const url = new URL(input instanceof Request ? input.url : input)
+      if (url.host === "down.com") return new Response("bad gateway", { status: 502 })
+      return Response.json({ items: [], path: url.pathname, format: url.searchParams.get("format") })
+    })
+    vi.stubGlobal("fetch", fetch)
+    const { data, instance } = await fetchRSSHub<any>("weibo/search/hot", { format: "json" })
+    expect(instance).toBe("https://self.com/rsshub")
+    expect(data).toEqual({ items: [], path: "/rsshub/weibo/search/hot", format: "json" })
+    expect(fetch).toHaveBeenCalledTimes(2)
+
+    const [self, down] = getRSSHubStatus()
+    expect(self).toMatchObject({ instance: "https://self.com/rsshub", failures: 0, cooling: false })
+    expect(self.routes.map(k => k.route)).toEqual(["weibo/search/hot"])
+    expect(down).toMatchObject({ instance: "https://down.com", failures: 1, cooling: true, routes: [] })
+  })
+
+  it("全部失败时抛出", async () => {
+    vi.stubEnv("RSSHUB_INSTANCES", "https://down.com")
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })))
+    await expect(fetchRSSHub("weibo/search/hot")).rejects.toThrow("All RSSHub instances failed on weibo/search/hot")
+  })
+})
@@ -0,0 +1,111 @@
+import process from "node:process"
+import type { RSSHubInstance } from "./types"
+
+interface InstanceState {
+  failures: number
+  /**
+   * 响应时间的滑动平均，没成功过时是 undefined
+   */
+  latency?: number
+  failedAt: number
+}
+
+export const DefaultRSSHubInstances = [
+  "https://rsshub.rssforever.com",
+  "https://rsshub.pseudoyu.com",
+]
+
+// 失败后冷却一段时间再排到前面，连续失败冷却翻倍
+const BaseCooldown = 60 * 1000
+const MaxCooldown = 30 * 60 * 1000
+// 新测到的响应时间占的权重
+const LatencyWeight = 0.3
+
+const states = new Map<string, InstanceState>()
+// 每个路由最近一次由哪个实例返回，方便排查
+const served = new Map<string, { instance: string, time: number }>()
+
+/**
+ * RSSHUB_INSTANCES 用逗号或空白分隔，写在前面的优先，没配置时用公共实例
+ */
+export function getRSSHubInstances(env = process.env.RSSHUB_INSTANCES) {
+  const instances = (env ?? "")
+    .split(/[\s,]+/)
+    .map(k => k.trim().replace(/\/+$/, ""))
+    .filter(k => /^https?:\/\//.test(k))
+  return instances.length ? [...new Set(instances)] : DefaultRSSHubInstances
+}
+
+function cooling(state: InstanceState | undefined, now: number) {
+  if (!state?.failures) return false
+  const cooldown = Math.min(BaseCooldown * 2 ** (state.failures - 1), MaxCooldown)
+  return now - state.failedAt < cooldown
+}
+
+/**
+ * 冷却中的排在最后，其余按响应时间排，还没测过的先试，同样快时保持配置顺序
+ */
+export function rankRSSHubInstances(instances = getRSSHubInstances(), now = Date.now()) {
+  return instances
+    .map((instance, index) => ({ instance, index, state: states.get(instance) }))
+    .sort((a, b) => {
+      const cool = Number(cooling(a.state, now)) - Number(cooling(b.state, now))
+      if (cool) return cool
+      return (a.state?.latency ?? 0) - (b.state?.latency ?? 0) || a.index - b.index
+    })
+    .map(k => k.instance)
+}
+
+export function recordRSSHubSuccess(instance: string, latency: number) {
+  const state = states.get(instance)
+  states.set(instance, {
+    failures: 0,
+    failedAt: state?.failedAt ?? 0,
+    latency: state?.latency === undefined ? latency : state.latency * (1 - LatencyWeight) + latency * LatencyWeight,
+  })
+}
+
+export function recordRSSHubFailure(instance: string, now = Date.now()) {
+  const state = states.get(instance) ?? { failures: 0, failedAt: 0 }
+  state.failures++
+  state.failedAt = now
+  states.set(instance, state)
+}
+
+/**
+ * 按排名依次请求，一个实例失败就换下一个，不在同一个实例上重试
+ */
+export async function fetchRSSHub<T>(route: string, params: Record<string, string> = {}) {
+  const errors: string[] = []
+  for (const instance of rankRSSHubInstances()) {
+    // 自建实例可能部署在子路径下
+    const url = new URL(instance + route.replace(/^\/*/, "/"))
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value))
+    const start = Date.now()
+    try {
+      const data: T = await myFetch(url.href, { retry: 0 })
+      recordRSSHubSuccess(instance, Date.now() - start)
+      served.set(route, { instance, time: Date.now() })
+      logger.debug(`rsshub ${route} served by ${instance}`)
+      return { data, instance }
+    } catch (e) {
+      recordRSSHubFailure(instance)
+      errors.push(`${instance}: ${e instanceof Error ? e.message : e}`)
+      logger.warn(`rsshub ${instance} failed on ${route}, trying next`)
+    }
+  }
+  throw new Error(`All RSSHub instances failed on ${route}\n${errors.join("\n")}`)
+}
+
+export function getRSSHubStatus(now = Date.now()): RSSHubInstance[] {
+  return rankRSSHubInstances(getRSSHubInstances(), now).map((instance) => {
+    const state = states.get(instance)
+    return {
+      instance,
+      failures: state?.failures ?? 0,
+      latency: state?.latency && Math.round(state.latency),
+      cooling: cooling(state, now),
+      routes: [...served.entries()].filter(([, k]) => k.instance === instance).map(([route, k]) => ({ route, time: k.time })),
+    }
+  })
+}
@@ -144,8 +144,32 @@ function formatNumber(num: number): string {
 }
 
 export default defineSource({
-  "bilibili": hotSearch,
-  "bilibili-hot-search": hotSearch,
-  "bilibili-hot-video": hotVideo,
-  "bilibili-ranking": ranking,
+  id: "bilibili",
+  name: "哔哩哔哩",
+  color: "blue",
+  home: "https://www.bilibili.com",
+  pictureHosts: ["*.hdslb.com", "*.biliimg.com"],
+  sub: {
+    "hot-search": {
+      title: "热搜",
+      column: "china",
+      type: "hottest",
+      getter: hotSearch,
+    },
+    "hot-video": {
+      title: "热门视频",
+      disable: "cf",
+      column: "china",
+      type: "hottest",
+      getter: hotVideo,
+    },
+    "ranking": {
+      title: "排行榜",
+      column: "china",
+      disable: "cf",
+      type: "hottest",
+      interval: Time.Common,
+      getter: ranking,
+    },
+  },
 })
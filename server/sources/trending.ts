@@ -0,0 +1,17 @@
+import { getSourceResponse, resolveSourceID } from "#/fetcher"
+import { hottestSourceIDs, mergeHottest } from "#/cluster"
+
+export default defineSource(async () => {
+  const ids = hottestSourceIDs().filter(id => resolveSourceID(id) === id)
+  // 各源有缓存就用缓存，一个源失败不影响合并
+  const responses = await mapWithConcurrency(ids, 5, async (id) => {
+    try {
+      return await getSourceResponse(id)
+    } catch (e) {
+      logger.error(e)
+    }
+  })
+  const groups = responses.filter(k => !!k).map(k => ({ source: k.id, items: k.items }))
+  if (!groups.length) throw new Error("No hottest source available")
+  return mergeHottest(groups)
+})
@@ -0,0 +1,35 @@
+import type { SourceID, SourceResponse } from "@shared/types"
+
+type Listener = (response: SourceResponse) => void
+
+const listeners = new Map<SourceID, Set<Listener>>()
+
+/**
+ * 订阅这些源的更新，返回取消订阅的函数
+ */
+export function subscribe(ids: SourceID[], listener: Listener) {
+  ids.forEach((id) => {
+    if (!listeners.has(id)) listeners.set(id, new Set())
+    listeners.get(id)!.add(listener)
+  })
+  return () => {
+    ids.forEach((id) => {
+      const set = listeners.get(id)
+      set?.delete(listener)
+      if (set?.size === 0) listeners.delete(id)
+    })
+  }
+}
+
+/**
+ * 本实例拉取到新数据后通知订阅者
+ */
+export function publish(response: SourceResponse) {
+  listeners.get(response.id)?.forEach((listener) => {
+    try {
+      listener(response)
+    } catch (e) {
+      logger.error(e)
+    }
+  })
+}
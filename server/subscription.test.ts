@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { fetchFeed, parseOPML, resolveFeed } from "./subscription"
+
+describe("opml", () => {
+  it("嵌套分组，重复的只留一个", () => {
+    const opml = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>subscriptions</title></head>
+  <body>
+    <outline text="Tech">
+      <outline type="rss" text="Hacker News" xmlUrl="https://hnrss.org/frontpage"/>
+      <outline type="rss" title="Solidot" text="solidot" xmlUrl="https://www.solidot.org/index.rss"/>
+    </outline>
+    <outline type="rss" text="Hacker News" xmlUrl="https://hnrss.org/frontpage"/>
+    <outline type="rss" text="Broken" xmlUrl="javascript:alert(1)"/>
+  </body>
+</opml>`
+    expect(parseOPML(opml)).toEqual([
+      { url: "https://hnrss.org/frontpage", title: "Hacker News" },
+      { url: "https://www.solidot.org/index.rss", title: "Solidot" },
+    ])
+  })
+
+  it("只有一个 outline", () => {
+    const opml = `<opml><body><outline text="a" xmlUrl="https://a.com/feed"/></body></opml>`
+    expect(parseOPML(opml)).toEqual([{ url: "https://a.com/feed", title: "a" }])
+  })
+
+  it("不是 opml", () => {
+    expect(parseOPML("<rss></rss>")).toEqual([])
+  })
+})
+
+describe("feed", () => {
+  it("不拉取内网地址", async () => {
+    await expect(resolveFeed("http://169.254.169.254/latest/meta-data")).rejects.toThrow("Private host")
+    await expect(resolveFeed("http://127.0.0.1:3000/feed.xml")).rejects.toThrow("Private host")
+    await expect(resolveFeed("file:///etc/passwd")).rejects.toThrow("Invalid feed url")
+  })
+
+  describe("跳转", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it("跳到内网地址时拦下", async () => {
+      const fetch = vi.fn(async () => new Response("", { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data" } }))
+      vi.stubGlobal("fetch", fetch)
+      await expect(resolveFeed("http://93.184.216.34/feed.xml")).rejects.toThrow("Private host")
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it("跳到公网地址时跟过去", async () => {
+      const fetch = vi.fn(async (url: string) => url.endsWith("/old.xml")
+        ? new Response("", { status: 301, headers: { location: "/new.xml" } })
+        : new Response("<rss></rss>", { headers: { "content-type": "application/xml" } }))
+      vi.stubGlobal("fetch", fetch)
+      expect(await fetchFeed("http://93.184.216.34/old.xml")).toBe("<rss></rss>")
+      expect(fetch.mock.calls.map(([url]) => url)).toEqual(["http://93.184.216.34/old.xml", "http://93.184.216.34/new.xml"])
+    })
+
+    it("跳转次数有上限", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 302, headers: { location: "/loop.xml" } })))
+      await expect(fetchFeed("http://93.184.216.34/loop.xml")).rejects.toThrow("Too many redirects")
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import type { FeedSubscription, SourceID } from "@shared/types"
+import { XMLParser } from "fast-xml-parser"
+import { getSubscriptionTable } from "./database/subscription"
+import { assertPublicHost } from "./image-proxy"
+
+export const MaxSubscriptions = 100
+const MaxRedirects = 3
+
+export interface OPMLOutline {
+  url: string
+  title?: string
+}
+
+export async function feedSourceID(url: string) {
+  return `feed-${(await md5(url)).slice(0, 12)}` as SourceID
+}
+
+/**
+ * 取出 OPML 里所有带 xmlUrl 的 outline，分组可以嵌套
+ */
+export function parseOPML(opml: string): OPMLOutline[] {
+  const xml = new XMLParser({
+    attributeNamePrefix: "",
+    ignoreAttributes: false,
+    isArray: name => name === "outline",
+  })
+  const result = xml.parse(opml)
+  const outlines: OPMLOutline[] = []
+  const walk = (nodes: any[] = []) => {
+    nodes.forEach((node) => {
+      if (typeof node !== "object") return
+      if (typeof node.xmlUrl === "string" && /^https?:\/\//.test(node.xmlUrl)) {
+        outlines.push({ url: node.xmlUrl, title: node.title || node.text || undefined })
+      }
+      walk(node.outline)
+    })
+  }
+  walk(result?.opml?.body?.outline)
+  return outlines.filter((k, i) => outlines.findIndex(o => o.url === k.url) === i)
+}
+
+/**
+ * 订阅地址是用户填的，不能指向内网。每次拉取前都查，域名可能在订阅后改指向
+ */
+export async function assertFeedURL(url: string) {
+  if (!URL.canParse(url) || !["http:", "https:"].includes(new URL(url).protocol)) throw new Error("Invalid feed url")
+  await assertPublicHost(new URL(url).hostname)
+}
+
+/**
+ * 不让 myFetch 自己跟随跳转，每一跳都检查地址，公网地址跳转到内网也能拦住
+ */
+export async function fetchFeed(url: string) {
+  let target = url
+  for (let redirects = 0; redirects <= MaxRedirects; redirects++) {
+    await assertFeedURL(target)
+    const res = await myFetch.raw<string, "text">(target, {
+      responseType: "text",
+      redirect: "manual",
+      ignoreResponseError: true,
+    })
+    const location = res.headers.get("location")
+    if (res.status >= 300 && res.status < 400 && location) {
+      target = new URL(location, target).href
+      continue
+    }
+    if (!res.ok) throw new Error(`Feed ${target} responded ${res.status}`)
+    return res._data ?? ""
+  }
+  throw new Error(`Too many redirects on feed ${url}`)
+}
+
+/**
+ * 拉一次订阅地址，确认能解析，顺便拿到标题和主页
+ */
+export async function resolveFeed(url: string, title?: string): Promise<FeedSubscription> {
+  await assertFeedURL(url)
+  const data = await rss2json(url, fetchFeed)
+  if (!data?.items.length) throw new Error(`Cannot parse feed ${url}`)
+  // atom 的 title 可能带 type 属性，解析出来是 { $text } 对象
+  const raw: unknown = data.title
+  const name = typeof raw === "string" ? raw : typeof raw === "object" && raw && "$text" in raw ? raw.$text : undefined
+  return {
+    id: await feedSourceID(url),
+    url,
+    title: String(name || title || new URL(url).hostname).trim(),
+    home: typeof data.link === "string" ? data.link : undefined,
+    created: Date.now(),
+  }
+}
+
+/**
+ * 用户订阅的源没有 getter，用 url 现造一个
+ */
+export async function getFeedGetter(id: SourceID) {
+  const subscriptionTable = await getSubscriptionTable()
+  const url = await subscriptionTable?.getURL(id)
+  if (!url) return
+  return defineRSSSource(url, { fetchText: fetchFeed })
+}
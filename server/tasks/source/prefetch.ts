@@ -0,0 +1,52 @@
+import process from "node:process"
+import type { SourceID } from "@shared/types"
+import { getters } from "#/getters"
+import { getCacheStore } from "#/database/cache"
+import { fetchLatest } from "#/fetcher"
+import { allowRequest } from "#/breaker"
+
+interface PrefetchResult {
+  fetched: number
+  failed: number
+}
+
+export default defineTask<PrefetchResult | string>({
+  meta: {
+    name: "source:prefetch",
+    description: "按各源的刷新间隔预先拉取，保持缓存是热的",
+  },
+  async run() {
+    if (process.env.ENABLE_PREFETCH === "false") return { result: "disabled" }
+    // 没有缓存的话预取了也没用
+    const cacheStore = await getCacheStore()
+    if (!cacheStore) return { result: "cache disabled" }
+
+    const concurrency = Number(process.env.PREFETCH_CONCURRENCY) || 3
+    // 错开请求，避免同一时刻一起打到上游
+    const jitter = Number(process.env.PREFETCH_JITTER) || 5000
+
+    const all = typeSafeObjectEntries(genSources())
+      .filter(([id, source]) => !source.redirect && getters[id as SourceID])
+    const caches = await cacheStore.getEntire(all.map(([id]) => id))
+    const updated = new Map(caches.map(cache => [cache.id, cache.updated]))
+    const now = Date.now()
+    const due = all
+      .filter(([id, source]) => now - (updated.get(id) ?? 0) >= source.interval && allowRequest(id, now))
+      .map(([id]) => id)
+    if (!due.length) return { result: { fetched: 0, failed: 0 } }
+
+    logger.info(`prefetch ${due.length} sources`)
+    const results = await mapWithConcurrency(due, concurrency, async (id) => {
+      await delay(Math.random() * jitter)
+      try {
+        await fetchLatest(id)
+        return true
+      } catch (e) {
+        logger.error(`prefetch ${id} failed`, e)
+        return false
+      }
+    })
+    const fetched = results.filter(Boolean).length
+    return { result: { fetched, failed: results.length - fetched } }
+  },
+})
@@ -0,0 +1,220 @@
+import { Buffer } from "node:buffer"
+import { lookup } from "node:dns/promises"
+import http from "node:http"
+import https from "node:https"
+import net from "node:net"
+import { Readable } from "node:stream"
+import tls from "node:tls"
+import zlib from "node:zlib"
+
+const MaxRedirects = 5
+
+/**
+ * 从 socket 读出固定长度，或者读到 \r\n\r\n 为止，多读的放回去留给 http。
+ * 用 readable 而不是 data 事件，去掉监听后 socket 不会停在暂停状态
+ */
+function read(socket: net.Socket, until: number | "\r\n\r\n") {
+  return new Promise<Buffer>((resolve, reject) => {
+    let buffer = Buffer.alloc(0)
+    function cleanup() {
+      socket.off("readable", onReadable)
+      socket.off("error", onError)
+      socket.off("close", onClose)
+    }
+    function onReadable() {
+      for (let chunk: Buffer | null = socket.read(); chunk !== null; chunk = socket.read()) buffer = Buffer.concat([buffer, chunk])
+      const end = typeof until === "number" ? (buffer.length >= until ? until : -1) : buffer.indexOf(until)
+      if (end === -1) return
+      cleanup()
+      const size = typeof until === "number" ? end : end + until.length
+      if (buffer.length > size) socket.unshift(buffer.subarray(size))
+      resolve(buffer.subarray(0, size))
+    }
+    function onError(e: Error) {
+      cleanup()
+      reject(e)
+    }
+    function onClose() {
+      onError(new Error("Proxy closed the connection"))
+    }
+    socket.on("readable", onReadable)
+    socket.on("error", onError)
+    socket.on("close", onClose)
+  })
+}
+
+function connect(proxy: URL, defaultPort: number, signal?: AbortSignal) {
+  const port = Number(proxy.port) || defaultPort
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = proxy.protocol === "https:"
+      ? tls.connect({ host: proxy.hostname, port, servername: proxy.hostname }, () => resolve(socket))
+      : net.connect(port, proxy.hostname, () => resolve(socket))
+    socket.once("error", reject)
+    // 握手期间超时也要断开到代理的连接
+    signal?.addEventListener("abort", () => socket.destroy(signal.reason), { once: true })
+  })
+}
+
+function basicAuth(proxy: URL) {
+  if (!proxy.username) return
+  return `Basic ${Buffer.from(`${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`).toString("base64")}`
+}
+
+async function connectHTTP(proxy: URL, host: string, port: number, signal?: AbortSignal) {
+  const socket = await connect(proxy, proxy.protocol === "https:" ? 443 : 80, signal)
+  const auth = basicAuth(proxy)
+  socket.write([
+    `CONNECT ${host}:${port} HTTP/1.1`,
+    `Host: ${host}:${port}`,
+    ...auth ? [`Proxy-Authorization: ${auth}`] : [],
+    "",
+    "",
+  ].join("\r\n"))
+  const head = (await read(socket, "\r\n\r\n")).toString("latin1")
+  const status = Number(head.split(" ")[1])
+  if (status !== 200) {
+    socket.destroy()
+    throw new Error(`Proxy CONNECT failed with ${status}`)
+  }
+  return socket
+}
+
+function ipv6Bytes(ip: string) {
+  const [head, tail] = ip.split("::")
+  const left = head ? head.split(":") : []
+  const right = tail ? tail.split(":") : []
+  const groups = tail === undefined ? left : [...left, ...Array.from({ length: 8 - left.length - right.length }, () => "0"), ...right]
+  return groups.flatMap((k) => {
+    const n = Number.parseInt(k, 16)
+    return [n >> 8, n & 0xFF]
+  })
+}
+
+async function connectSOCKS(proxy: URL, host: string, port: number, signal?: AbortSignal) {
+  const socket = await connect(proxy, 1080, signal)
+  try {
+    const methods = proxy.username ? [0x00, 0x02] : [0x00]
+    socket.write(Buffer.from([0x05, methods.length, ...methods]))
+    const [, method] = await read(socket, 2)
+    if (method === 0x02) {
+      const user = Buffer.from(decodeURIComponent(proxy.username))
+      const pass = Buffer.from(decodeURIComponent(proxy.password))
+      socket.write(Buffer.concat([Buffer.from([0x01, user.length]), user, Buffer.from([pass.length]), pass]))
+      const [, status] = await read(socket, 2)
+      if (status !== 0x00) throw new Error("SOCKS authentication failed")
+    } else if (method !== 0x00) {
+      throw new Error("SOCKS proxy requires an unsupported auth method")
+    }
+
+    // socks5h 由代理解析域名，socks5 在本地解析
+    let address: Buffer
+    if (proxy.protocol === "socks5h:" && !net.isIP(host)) {
+      address = Buffer.concat([Buffer.from([0x03, Buffer.byteLength(host)]), Buffer.from(host)])
+    } else {
+      const ip = net.isIP(host) ? host : (await lookup(host)).address
+      address = net.isIPv4(ip)
+        ? Buffer.from([0x01, ...ip.split(".").map(Number)])
+        : Buffer.from([0x04, ...ipv6Bytes(ip)])
+    }
+    socket.write(Buffer.concat([Buffer.from([0x05, 0x01, 0x00]), address, Buffer.from([port >> 8, port & 0xFF])]))
+    const [, reply, , type] = await read(socket, 4)
+    if (reply !== 0x00) throw new Error(`SOCKS connect failed with ${reply}`)
+    // 跳过代理绑定的地址和端口
+    const size = type === 0x01 ? 4 : type === 0x04 ? 16 : (await read(socket, 1))[0]
+    await read(socket, size + 2)
+    return socket
+  } catch (e) {
+    socket.destroy()
+    throw e
+  }
+}
+
+/**
+ * 建立到目标的隧道，https 的目标再包一层 tls
+ */
+async function openTunnel(proxy: URL, target: URL, signal?: AbortSignal) {
+  const port = Number(target.port) || (target.protocol === "https:" ? 443 : 80)
+  const socket = proxy.protocol.startsWith("socks")
+    ? await connectSOCKS(proxy, target.hostname, port, signal)
+    : await connectHTTP(proxy, target.hostname, port, signal)
+  if (target.protocol !== "https:") return socket
+  return new Promise<net.Socket>((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: target.hostname }, () => resolve(secure))
+    secure.once("error", reject)
+  })
+}
+
+function decompress(res: http.IncomingMessage) {
+  switch (res.headers["content-encoding"]) {
+    case "gzip": return res.pipe(zlib.createGunzip())
+    case "deflate": return res.pipe(zlib.createInflate())
+    case "br": return res.pipe(zlib.createBrotliDecompress())
+    default: return res
+  }
+}
+
+async function send(proxy: URL, target: URL, method: string, headers: Record<string, string>, body?: Buffer, signal?: AbortSignal) {
+  headers = { ...headers, "host": target.host, "accept-encoding": headers["accept-encoding"] ?? "gzip, deflate, br" }
+  let req: http.ClientRequest
+  if (target.protocol === "http:" && proxy.protocol.startsWith("http")) {
+    // http 代理转发明文请求时直接用完整地址，不需要 CONNECT
+    const auth = basicAuth(proxy)
+    req = (proxy.protocol === "https:" ? https : http).request({
+      host: proxy.hostname,
+      port: Number(proxy.port) || (proxy.protocol === "https:" ? 443 : 80),
+      path: target.href,
+      method,
+      headers: auth ? { ...headers, "proxy-authorization": auth } : headers,
+      signal,
+    })
+  } else {
+    // 先建好隧道，再让 http 在这条连接上发请求
+    const socket = await openTunnel(proxy, target, signal)
+    req = http.request({
+      host: target.hostname,
+      path: target.pathname + target.search,
+      method,
+      headers,
+      signal,
+      createConnection: () => socket,
+    })
+  }
+  return new Promise<http.IncomingMessage>((resolve, reject) => {
+    req.once("response", resolve)
+    req.once("error", reject)
+    req.end(body)
+  })
+}
+
+/**
+ * 和 fetch 一样的接口，请求经过 http(s) 或 socks5(h) 代理，只在 node 下可用
+ */
+export async function proxyFetch(proxy: string, input: Parameters<typeof fetch>[0], init?: RequestInit): Promise<Response> {
+  const request = new Request(input, init)
+  const body = request.body ? Buffer.from(await request.arrayBuffer()) : undefined
+  let target = new URL(request.url)
+  let method = request.method
+  for (let redirects = 0; ; redirects++) {
+    const res = await send(new URL(proxy), target, method, Object.fromEntries(request.headers), method === request.method ? body : undefined, init?.signal ?? undefined)
+    const status = res.statusCode ?? 500
+    const location = res.headers.location
+    if (status >= 300 && status < 400 && location && request.redirect !== "manual") {
+      res.resume()
+      if (redirects >= MaxRedirects) throw new Error(`Too many redirects from ${request.url}`)
+      target = new URL(location, target)
+      if (status === 303 || ((status === 301 || status === 302) && method === "POST")) method = "GET"
+      continue
+    }
+    const headers = new Headers()
+    Object.entries(res.headers).forEach(([key, value]) => {
+      if (key === "content-encoding" || key === "content-length" || value === undefined) return
+      const values = Array.isArray(value) ? value : [value]
+      values.forEach(v => headers.append(key, v))
+    })
+    const empty = [101, 204, 205, 304].includes(status) || method === "HEAD"
+    if (empty) res.resume()
+    const response = new Response(empty ? null : Readable.toWeb(decompress(res)) as ReadableStream, { status, statusText: res.statusMessage, headers })
+    Object.defineProperty(response, "url", { value: target.href })
+    return response
+  }
+}
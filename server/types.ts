@@ -1,4 +1,4 @@
-import type { NewsItem, SourceID } from "@shared/types"
+import type { NewsItem, OriginSource, SourceID, SourceUpstream } from "@shared/types"
 
 export interface RSSInfo {
   title: string
@@ -19,12 +19,32 @@ export interface CacheInfo {
   id: SourceID
   items: NewsItem[]
   updated: number
+  /**
+   * 从上游实例拿到的数据，记下来源，重启后或者其他实例读缓存时也知道
+   */
+  upstream?: SourceUpstream
+}
+
+export interface CacheOption {
+  /**
+   * 默认是写入的时间，上游的数据用上游的更新时间
+   */
+  updated?: number
+  upstream?: SourceUpstream
+}
+
+export interface CacheStore {
+  set: (key: string, value: NewsItem[], option?: CacheOption) => Promise<void>
+  get: (key: string) => Promise<CacheInfo | undefined>
+  getEntire: (keys: string[]) => Promise<CacheInfo[]>
+  delete: (key: string) => Promise<void>
 }
 
 export interface CacheRow {
   id: SourceID
   data: string
   updated: number
+  upstream?: string | null
 }
 
 export interface RSSHubInfo {
@@ -58,9 +78,55 @@ export interface RSSHubOption {
   limit?: number
 }
 
+/**
+ * /api/health/rsshub 返回的实例状态，按当前排名排序
+ */
+export interface RSSHubInstance {
+  instance: string
+  failures: number
+  /**
+   * 平均响应时间，ms，还没成功过时为空
+   */
+  latency?: number
+  cooling: boolean
+  /**
+   * 最近一次由这个实例返回的路由
+   */
+  routes: { route: string, time: number }[]
+}
+
 export interface SourceOption {
   // default: false
   hiddenDate?: boolean
+  /**
+   * 自己拉取订阅地址，比如用户订阅的源要逐跳检查地址
+   */
+  fetchText?: (url: string) => Promise<string>
 }
 
 export type SourceGetter = () => Promise<NewsItem[]>
+
+type SubSource = NonNullable<OriginSource["sub"]>[string]
+
+/**
+ * 元数据和 getter 写在一起，scripts/source.ts 会把元数据生成到 shared/defined-sources.ts
+ */
+export interface SourceDefinition extends Omit<OriginSource, "sub"> {
+  id: string
+  /**
+   * 有子源时用子源各自的 getter
+   */
+  getter?: SourceGetter
+  sub?: Record<string, SubSource & { getter: SourceGetter }>
+}
+
+/**
+ * 浏览器 PushSubscription.toJSON() 的结构
+ */
+export interface WebPushSubscription {
+  endpoint: string
+  keys: {
+    p256dh: string
+    auth: string
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { FederatedHeader, fetchUpstream, getUpstreamInstances, isDisabledLocally, upstreamUpdatedTime } from "./upstream"
+
+describe("upstream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("读取配置的实例", () => {
+    expect(getUpstreamInstances("https://a.com/, http://b.com\nftp://c.com https://a.com")).toEqual(["https://a.com", "http://b.com"])
+    expect(getUpstreamInstances("")).toEqual([])
+  })
+
+  it("cloudflare 上 disable: cf 的源本地跑不了", () => {
+    expect(isDisabledLocally("36kr")).toBe(false)
+    vi.stubEnv("CF_PAGES", "1")
+    expect(isDisabledLocally("36kr")).toBe(true)
+    expect(isDisabledLocally("weibo")).toBe(false)
+  })
+
+  it("依次尝试上游实例，带上转发标记", async () => {
+    vi.stubEnv("UPSTREAM_INSTANCES", "https://down.com,https://peer.com/")
+    const items = [{ id: 1, title: "a", url: "https://a.com" }]
+    const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input)
+      if (url.host === "down.com") return new Response("", { status: 404 })
+      expect(new Headers(init?.headers).get(FederatedHeader)).toBe("1")
+      return Response.json({ status: "cache", id: url.searchParams.get("id"), updatedTime: 1000, items })
+    })
+    vi.stubGlobal("fetch", fetch)
+    expect(await fetchUpstream("weibo")).toEqual({
+      items,
+      upstream: { instance: "https://peer.com", updatedTime: 1000 },
+    })
+  })
+
+  it("上游都没有数据时抛出", async () => {
+    vi.stubEnv("UPSTREAM_INSTANCES", "https://peer.com")
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ status: "success", id: "weibo", updatedTime: 1000, items: [] })))
+    await expect(fetchUpstream("weibo")).rejects.toThrow("All upstream instances failed on weibo")
+  })
+
+  it("按上游的更新时间算缓存", () => {
+    const instance = "https://peer.com"
+    expect(upstreamUpdatedTime({ instance, updatedTime: 1000 }, 5000)).toBe(1000)
+    expect(upstreamUpdatedTime({ instance, updatedTime: "1970-01-01T00:00:02.000Z" }, 5000)).toBe(2000)
+    expect(upstreamUpdatedTime({ instance, updatedTime: "yesterday" }, 5000)).toBe(5000)
+    expect(upstreamUpdatedTime({ instance, updatedTime: 9000 }, 5000)).toBe(5000)
+  })
+})
@@ -0,0 +1,59 @@
+import process from "node:process"
+import type { NewsItem, SourceID, SourceResponse, SourceUpstream } from "@shared/types"
+
+/**
+ * 上游发来的请求带上这个头，对方不会再转给它自己的上游，避免互为上游时绕圈
+ */
+export const FederatedHeader = "x-newsnow-federated"
+
+/**
+ * UPSTREAM_INSTANCES 是其他 NewsNow 实例的地址，逗号或空白分隔，按顺序尝试
+ */
+export function getUpstreamInstances(env = process.env.UPSTREAM_INSTANCES) {
+  const instances = (env ?? "")
+    .split(/[\s,]+/)
+    .map(k => k.trim().replace(/\/+$/, ""))
+    .filter(k => /^https?:\/\//.test(k))
+  return [...new Set(instances)]
+}
+
+/**
+ * 本地跑不了的源，比如 cloudflare 上 disable: "cf" 的
+ */
+export function isDisabledLocally(id: SourceID) {
+  const disable = sources[id]?.disable
+  return disable === true || (disable === "cf" && !!process.env.CF_PAGES)
+}
+
+/**
+ * 上游数据的更新时间，解析不了或者晚于现在时用 now
+ */
+export function upstreamUpdatedTime(upstream: SourceUpstream, now = Date.now()) {
+  const time = typeof upstream.updatedTime === "number" ? upstream.updatedTime : Date.parse(upstream.updatedTime)
+  return Number.isFinite(time) && time <= now ? time : now
+}
+
+/**
+ * 从上游的 /api/s 拉取，一个实例失败或者没有数据就换下一个
+ */
+export async function fetchUpstream(id: SourceID): Promise<{ items: NewsItem[], upstream: SourceUpstream }> {
+  const errors: string[] = []
+  for (const instance of getUpstreamInstances()) {
+    try {
+      const res: SourceResponse = await myFetch(`${instance}/api/s`, {
+        query: { id },
+        headers: { [FederatedHeader]: "1" },
+        retry: 1,
+      })
+      if (res?.id !== id || !Array.isArray(res.items) || !res.items.length) throw new Error("Empty result")
+      logger.info(`fetch ${id} from upstream ${instance}`)
+      return {
+        items: res.items,
+        upstream: { instance, updatedTime: res.updatedTime },
+      }
+    } catch (e) {
+      errors.push(`${instance}: ${e instanceof Error ? e.message : e}`)
+    }
+  }
+  throw new Error(`All upstream instances failed on ${id}\n${errors.join("\n")}`)
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+
+describe("mapWithConcurrency", () => {
+  it("保持原有顺序", async () => {
+    const res = await mapWithConcurrency([30, 10, 20], 2, async (ms, i) => {
+      await delay(ms)
+      return i
+    })
+    expect(res).toEqual([0, 1, 2])
+  })
+
+  it("不超过并发数", async () => {
+    let running = 0
+    let max = 0
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      running++
+      max = Math.max(max, running)
+      await delay(5)
+      running--
+    })
+    expect(max).toBe(3)
+  })
+
+  it("空数组", async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([])
+  })
+})
@@ -22,3 +22,9 @@ export async function myCrypto(s: string, algorithm: Algorithm) {
   const hashHex = hashArray.map(b => b.toString(16).padStart(2, "0")).join("")
   return hashHex
 }
+
+export async function hmacSHA256(key: string, data: string) {
+  const encoder = new TextEncoder()
+  const cryptoKey = await subtle.importKey("raw", encoder.encode(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"])
+  return new Uint8Array(await subtle.sign("HMAC", cryptoKey, encoder.encode(data)))
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest"
+
+describe("matchETag", () => {
+  it("相同的 ETag 匹配", () => {
+    expect(matchETag(`W/"abc"`, `W/"abc"`)).toBe(true)
+  })
+
+  it("忽略 W/ 前缀", () => {
+    expect(matchETag(`"abc"`, `W/"abc"`)).toBe(true)
+  })
+
+  it("多个 ETag 中有一个匹配", () => {
+    expect(matchETag(`"foo", W/"abc"`, `W/"abc"`)).toBe(true)
+    expect(matchETag(`*`, `W/"abc"`)).toBe(true)
+  })
+
+  it("不匹配", () => {
+    expect(matchETag(undefined, `W/"abc"`)).toBe(false)
+    expect(matchETag(`W/"abcd"`, `W/"abc"`)).toBe(false)
+  })
+})
@@ -0,0 +1,41 @@
+import type { H3Event } from "h3"
+
+interface CacheHeaderOption {
+  etag: string
+  /**
+   * 秒
+   */
+  maxAge: number
+  staleWhileRevalidate?: number
+  /**
+   * 跟用户有关的响应不能让 CDN 缓存
+   */
+  private?: boolean
+}
+
+/**
+ * 弱比较，W/ 前缀不影响是否匹配
+ */
+export function matchETag(ifNoneMatch: string | undefined, etag: string) {
+  if (!ifNoneMatch) return false
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "")
+  return ifNoneMatch.split(",").some(tag => tag.trim() === "*" || strip(tag) === strip(etag))
+}
+
+/**
+ * 设置 ETag 和 Cache-Control，客户端的 If-None-Match 命中时设为 304 并返回 true
+ */
+export function handleCacheControl(event: H3Event, { etag, maxAge, staleWhileRevalidate, private: isPrivate }: CacheHeaderOption) {
+  const directives = [isPrivate ? "private" : "public", `max-age=${maxAge}`]
+  if (!isPrivate) directives.push(`s-maxage=${maxAge}`)
+  if (staleWhileRevalidate) directives.push(`stale-while-revalidate=${staleWhileRevalidate}`)
+  setResponseHeaders(event, {
+    "ETag": etag,
+    "Cache-Control": directives.join(", "),
+  })
+  if (matchETag(getRequestHeader(event, "if-none-match"), etag)) {
+    setResponseStatus(event, 304)
+    return true
+  }
+  return false
+}
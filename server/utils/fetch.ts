@@ -1,9 +1,55 @@
+import process from "node:process"
 import { $fetch } from "ofetch"
+import type { FetchContext } from "ofetch"
+import { acquireLimit, currentSource, releaseLimit, resolveFetchPolicy } from "#/fetch-policy"
 
+// 每次请求占用的限流位置和代理，key 是传给 fetch 的 options
+const holding = new WeakMap<object, string[]>()
+const proxies = new WeakMap<object, string>()
+// ofetch 重试时会带着展开的 options 再走一遍 onRequest，用这个标记只在第一次请求时设置重试和超时，否则重试次数永远不会减少
+const Retrying = Symbol("retrying")
+
+function release(context: FetchContext) {
+  holding.get(context.options)?.forEach(releaseLimit)
+  holding.delete(context.options)
+}
+
+/**
+ * 请求前按域名和当前源的 FETCH_POLICY 补上请求头、超时、重试、代理，并排队限流
+ */
 export const myFetch = $fetch.create({
-  headers: {
-    "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36",
-  },
   timeout: 10000,
   retry: 3,
+  async onRequest(context) {
+    const { request, options } = context
+    const url = typeof request === "string" ? request : request.url
+    if (!URL.canParse(url)) return
+    const policy = resolveFetchPolicy({ host: new URL(url).hostname, source: currentSource() })
+    Object.entries(policy.profile).forEach(([key, value]) => {
+      if (!options.headers.has(key)) options.headers.set(key, value)
+    })
+    Object.entries(policy.headers).forEach(([key, value]) => options.headers.set(key, value))
+    if (!(Retrying in options)) {
+      if (policy.timeout) options.timeout = policy.timeout
+      if (policy.retry !== undefined) options.retry = policy.retry
+      Object.assign(options, { [Retrying]: true })
+    }
+    if (policy.proxy) {
+      // cloudflare 里没有 socket，不走代理
+      if (process.env.CF_PAGES || process.env.VERCEL) logger.warn(`proxy is not supported on this platform, ${url} is fetched directly`)
+      else proxies.set(options, policy.proxy)
+    }
+    for (const limit of policy.limits) await acquireLimit(limit)
+    holding.set(options, policy.limits.map(k => k.key))
+  },
+  onResponse: release,
+  onRequestError: release,
+}, {
+  fetch: async (input, init) => {
+    const proxy = init && proxies.get(init)
+    if (!proxy) return globalThis.fetch(input, init)
+    // tunnel 用到 node:net、node:tls，只在配了代理时才加载
+    const { proxyFetch } = await import("#/tunnel")
+    return proxyFetch(proxy, input, init)
+  },
 })
@@ -1,4 +1,8 @@
+import { learnPictureHost } from "#/image-proxy"
+
 export function proxyPicture(url: string, type: "encodeURIComponent" | "encodeBase64URL" = "encodeURIComponent") {
+  // 图片代理只放行调用过这里的域名
+  learnPictureHost(url)
   const encoded = type === "encodeBase64URL" ? encodeBase64URL(url) : encodeURIComponent(url)
   return `/api/proxy/img.png?type=${type}&url=${encoded}`
 }
@@ -1,10 +1,13 @@
 import { XMLParser } from "fast-xml-parser"
 import type { RSSInfo } from "../types"
 
-export async function rss2json(url: string): Promise<RSSInfo | undefined> {
+/**
+ * fetchText 不传时用 myFetch，会自动跟随跳转
+ */
+export async function rss2json(url: string, fetchText?: (url: string) => Promise<string>): Promise<RSSInfo | undefined> {
   if (!/^https?:\/\/[^\s$.?#].\S*/i.test(url)) return
 
-  const data = await myFetch(url)
+  const data = fetchText ? await fetchText(url) : await myFetch(url)
 
   const xml = new XMLParser({
     attributeNamePrefix: "",
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import type { ScraperSpec } from "@shared/types"
+
+describe("scrape", () => {
+  it("html 选择器和属性", () => {
+    const html = `
+      <div class="block_m">
+        <div class="bg_htit"><a href="/tag">标签</a><a href="/story?sid=1">第一条</a></div>
+        <div class="talk_time">发表于2024年10月11日 12时30分</div>
+      </div>
+      <div class="block_m">
+        <div class="bg_htit"><a href="https://a.com/2">第二条</a></div>
+      </div>
+      <div class="block_m"><div class="bg_htit"></div></div>`
+    const spec: ScraperSpec = {
+      url: "https://www.solidot.org",
+      list: ".block_m",
+      fields: {
+        title: ".bg_htit a:last",
+        url: { selector: ".bg_htit a:last", attr: "href", prefix: "https://www.solidot.org" },
+        date: { selector: ".talk_time", regex: "发表于(.*?分)" },
+      },
+    }
+    const items = scrape(html, spec)
+    expect(items.map(k => [k.title, k.url, k.id])).toEqual([
+      ["第一条", "https://www.solidot.org/story?sid=1", "https://www.solidot.org/story?sid=1"],
+      ["第二条", "https://a.com/2", "https://a.com/2"],
+    ])
+    expect(items[0].pubDate).toBe(new Date("2024-10-11T04:30:00Z").getTime())
+    expect(items[1].pubDate).toBeUndefined()
+  })
+
+  it("空选择器取列表元素本身", () => {
+    const html = `<ul><a class="item" href="/1"><span>一</span></a></ul>`
+    const items = scrape(html, {
+      url: "https://a.com",
+      list: "a.item",
+      fields: { title: "span", url: { selector: "", attr: "href" } },
+    })
+    expect(items).toEqual([{ id: "/1", title: "一", url: "/1", pubDate: undefined, extra: undefined }])
+  })
+
+  it("json 路径", () => {
+    const data = {
+      data: {
+        list: [
+          { title: "a", link: "https://a.com", id: 1, time: 1700000000, stat: { hot: "120 万" } },
+          { title: "b" },
+        ],
+      },
+    }
+    const items = scrape(data, {
+      url: "https://a.com/api",
+      type: "json",
+      list: "data.list",
+      fields: { title: "title", url: "link", id: "id", date: "time", info: "stat.hot" },
+    })
+    expect(items).toEqual([{
+      id: "1",
+      title: "a",
+      url: "https://a.com",
+      pubDate: 1700000000000,
+      extra: { info: "120 万", hover: undefined },
+    }])
+  })
+
+  it("列表路径不对", () => {
+    expect(scrape({}, { url: "https://a.com", type: "json", list: "data", fields: { title: "t", url: "u" } })).toEqual([])
+  })
+})
@@ -0,0 +1,104 @@
+import { Buffer } from "node:buffer"
+import * as cheerio from "cheerio"
+import iconv from "iconv-lite"
+import type { NewsItem, ScraperField, ScraperSpec } from "@shared/types"
+import type { SourceGetter } from "#/types"
+
+function getPath(data: any, path: string) {
+  if (!path) return data
+  return path.split(".").reduce((o, k) => o?.[k], data)
+}
+
+/**
+ * 按正则和前缀处理取到的值
+ */
+function transform(value: unknown, field: ScraperField) {
+  if (value === undefined || value === null) return
+  let s = String(value).replace(/\s+/g, " ").trim()
+  if (typeof field === "string") return s || undefined
+  if (field.regex) {
+    const match = s.match(new RegExp(field.regex))
+    if (!match) return
+    s = match[1] ?? match[0]
+  }
+  if (field.prefix && s && !/^https?:\/\//.test(s)) s = field.prefix + s
+  return s || undefined
+}
+
+function toTimestamp(value: string | undefined, timezone: string) {
+  if (!value) return
+  // json 里的时间戳，秒或者毫秒
+  if (/^\d{10,13}$/.test(value)) return Number(value.length === 10 ? `${value}000` : value)
+  const date = parseRelativeDate(value, timezone)
+  if (date instanceof Date) return date.valueOf()
+  // 不是相对时间时原样返回，中文的年月日时分换成标准格式再解析
+  const time = tranformToUTC(value
+    .replace(/[年月]/g, "-")
+    .replace(/[时点]|分(?=\d)/g, ":")
+    .replace(/[日分秒]/g, "")
+    .trim(), undefined, timezone)
+  return Number.isNaN(time) ? undefined : time
+}
+
+function scrapeHTML(html: string, spec: ScraperSpec) {
+  const $ = cheerio.load(html)
+  return $(spec.list).toArray().map((el) => {
+    const get = (field?: ScraperField) => {
+      if (field === undefined) return
+      const selector = typeof field === "string" ? field : field.selector
+      // 空选择器表示列表元素本身
+      const $el = selector ? $(el).find(selector).first() : $(el)
+      const attr = typeof field === "string" ? undefined : field.attr
+      return transform(attr ? $el.attr(attr) : $el.text(), field)
+    }
+    return get
+  })
+}
+
+function scrapeJSON(data: any, spec: ScraperSpec) {
+  const list = getPath(data, spec.list)
+  if (!Array.isArray(list)) return []
+  return list.map((item) => {
+    const get = (field?: ScraperField) => {
+      if (field === undefined) return
+      return transform(getPath(item, typeof field === "string" ? field : field.selector), field)
+    }
+    return get
+  })
+}
+
+/**
+ * 按规则从 html 文本或者 json 里取出条目，没有标题或链接的跳过
+ */
+export function scrape(data: any, spec: ScraperSpec) {
+  const { fields, timezone = "Asia/Shanghai" } = spec
+  const getters = spec.type === "json" ? scrapeJSON(data, spec) : scrapeHTML(data, spec)
+  const news: NewsItem[] = []
+  getters.forEach((get) => {
+    const title = get(fields.title)
+    const url = get(fields.url)
+    if (!title || !url) return
+    const info = get(fields.info)
+    const hover = get(fields.hover)
+    news.push({
+      id: get(fields.id) ?? url,
+      title,
+      url,
+      pubDate: toTimestamp(get(fields.date), timezone),
+      extra: info || hover ? { info, hover } : undefined,
+    })
+  })
+  return news
+}
+
+/**
+ * 用 scrapers.json 里的规则抓取，省去每个源都写一遍 cheerio
+ */
+export function defineScraperSource(spec: ScraperSpec): SourceGetter {
+  return async () => {
+    const { headers, encoding = "utf-8" } = spec
+    if (spec.type === "json") return scrape(await myFetch(spec.url, { headers }), spec)
+    const response: ArrayBuffer = await myFetch(spec.url, { headers, responseType: "arrayBuffer" })
+    return scrape(iconv.decode(Buffer.from(response), encoding), spec)
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+
+describe("defineSource", () => {
+  const getter = async () => []
+  const source = defineSource({
+    id: "demo",
+    name: "Demo",
+    color: "blue",
+    sub: {
+      hot: { title: "热门", type: "hottest", getter },
+      latest: { title: "最新", getter },
+    },
+  })
+
+  it("识别带元数据的定义", () => {
+    expect(isSourceDefinition(source)).toBe(true)
+    expect(isSourceDefinition(defineSource({ "v2ex-share": getter }))).toBe(false)
+    expect(isSourceDefinition(getter)).toBe(false)
+  })
+
+  it("子源展开成 父id-子id", () => {
+    expect(Object.keys(definitionGetters(source))).toEqual(["demo-hot", "demo-latest"])
+    expect(definitionGetters({ id: "single", name: "Single", getter })).toEqual({ single: getter })
+  })
+
+  it("元数据去掉 id 和 getter", () => {
+    expect(definitionMeta(source)).toEqual({
+      name: "Demo",
+      color: "blue",
+      sub: {
+        hot: { title: "热门", type: "hottest" },
+        latest: { title: "最新" },
+      },
+    })
+  })
+})
@@ -1,18 +1,67 @@
 import process from "node:process"
-import type { AllSourceID } from "@shared/types"
+import type { AllSourceID, OriginSource } from "@shared/types"
 import defu from "defu"
-import type { RSSHubOption, RSSHubInfo as RSSHubResponse, SourceGetter, SourceOption } from "#/types"
+import { fetchRSSHub } from "#/rsshub"
+import type { RSSHubOption, RSSHubInfo as RSSHubResponse, SourceDefinition, SourceGetter, SourceOption } from "#/types"
 
 type R = Partial<Record<AllSourceID, SourceGetter>>
+export function defineSource<const T extends SourceDefinition>(source: T): T
 export function defineSource(source: SourceGetter): SourceGetter
 export function defineSource(source: R): R
-export function defineSource(source: SourceGetter | R): SourceGetter | R {
+export function defineSource(source: SourceDefinition | SourceGetter | R): SourceDefinition | SourceGetter | R {
   return source
 }
 
+export function isSourceDefinition(source: unknown): source is SourceDefinition {
+  return typeof source === "object" && source !== null && "id" in source && "name" in source
+}
+
+/**
+ * 展开成 id 到 getter，有子源时 id 是 父id-子id
+ */
+export function definitionGetters({ id, getter, sub }: SourceDefinition) {
+  const getters: Record<string, SourceGetter> = {}
+  if (sub && Object.keys(sub).length) {
+    Object.entries(sub).forEach(([subId, source]) => {
+      getters[`${id}-${subId}`] = source.getter
+    })
+  } else if (getter) {
+    getters[id] = getter
+  }
+  return getters
+}
+
+/**
+ * 把 server/sources 下的模块合并成 id 到 getter，key 是文件名，直接导出函数时用作 id
+ */
+export function collectGetters(modules: Record<string, { default: unknown }>) {
+  const getters: Record<string, SourceGetter> = {}
+  Object.entries(modules).forEach(([name, { default: source }]) => {
+    if (source instanceof Function) {
+      getters[name] = source as SourceGetter
+    } else if (isSourceDefinition(source)) {
+      Object.assign(getters, definitionGetters(source))
+    } else {
+      Object.assign(getters, source)
+    }
+  })
+  return getters
+}
+
+/**
+ * 去掉 id 和 getter，剩下的和 pre-sources 里的写法一样
+ */
+export function definitionMeta({ id: _, getter: __, sub, ...meta }: SourceDefinition): OriginSource {
+  if (!sub) return meta
+  return {
+    ...meta,
+    sub: Object.fromEntries(Object.entries(sub).map(([subId, { getter: _, ...source }]) => [subId, source])),
+  }
+}
+
 export function defineRSSSource(url: string, option?: SourceOption): SourceGetter {
   return async () => {
-    const data = await rss2json(url)
+    const data = await rss2json(url, option?.fetchText)
     if (!data?.items.length) throw new Error("Cannot fetch rss data")
     return data.items.map(item => ({
       title: item.title,
@@ -23,20 +72,19 @@ export function defineRSSSource(url: string, option?: SourceOption): SourceGette
   }
 }
 
+/**
+ * 实例从 RSSHUB_INSTANCES 读取，按健康和响应时间自动切换
+ */
 export function defineRSSHubSource(route: string, RSSHubOptions?: RSSHubOption, sourceOption?: SourceOption): SourceGetter {
   return async () => {
-    // "https://rsshub.pseudoyu.com"
-    const RSSHubBase = "https://rsshub.rssforever.com"
-    const url = new URL(route, RSSHubBase)
-    url.searchParams.set("format", "json")
     RSSHubOptions = defu<RSSHubOption, RSSHubOption[]>(RSSHubOptions, {
       sorted: true,
     })
-
+    const params: Record<string, string> = { format: "json" }
     Object.entries(RSSHubOptions).forEach(([key, value]) => {
-      url.searchParams.set(key, value.toString())
+      params[key] = value.toString()
     })
-    const data: RSSHubResponse = await myFetch(url)
+    const { data } = await fetchRSSHub<RSSHubResponse>(route, params)
     return data.items.map(item => ({
       title: item.title,
       url: item.url,
@@ -0,0 +1,106 @@
+import process from "node:process"
+import { SignJWT, base64url, importJWK } from "jose"
+import { subtle as _, getRandomValues } from "uncrypto"
+import type { WebPushSubscription } from "#/types"
+
+type T = typeof crypto.subtle
+const subtle: T = _
+
+export interface VAPIDKeys {
+  /**
+   * base64url 编码的 65 字节公钥，npx web-push generate-vapid-keys 生成
+   */
+  publicKey: string
+  privateKey: string
+  subject: string
+}
+
+export function getVAPIDKeys(): VAPIDKeys | undefined {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return
+  return {
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey: VAPID_PRIVATE_KEY,
+    subject: VAPID_SUBJECT || "mailto:newsnow@example.com",
+  }
+}
+
+function concat(...arrays: Uint8Array[]) {
+  const res = new Uint8Array(arrays.reduce((sum, k) => sum + k.length, 0))
+  let offset = 0
+  arrays.forEach((k) => {
+    res.set(k, offset)
+    offset += k.length
+  })
+  return res
+}
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) {
+  const key = await subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"])
+  return new Uint8Array(await subtle.deriveBits({ name: "HKDF", hash: "SHA-256", salt, info }, key, length * 8))
+}
+
+/**
+ * VAPID 认证，RFC 8292
+ */
+async function vapidAuthorization(endpoint: string, { publicKey, privateKey, subject }: VAPIDKeys) {
+  const pub = base64url.decode(publicKey)
+  const key = await importJWK({
+    kty: "EC",
+    crv: "P-256",
+    x: base64url.encode(pub.slice(1, 33)),
+    y: base64url.encode(pub.slice(33, 65)),
+    d: privateKey,
+  }, "ES256")
+  const jwt = await new SignJWT({ sub: subject })
+    .setProtectedHeader({ typ: "JWT", alg: "ES256" })
+    .setAudience(new URL(endpoint).origin)
+    .setExpirationTime("12h")
+    .sign(key)
+  return `vapid t=${jwt}, k=${publicKey}`
+}
+
+/**
+ * aes128gcm 加密，RFC 8291
+ */
+async function encrypt(subscription: WebPushSubscription, payload: string) {
+  const receiverKey = base64url.decode(subscription.keys.p256dh)
+  const authSecret = base64url.decode(subscription.keys.auth)
+
+  const local = await subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"])
+  const localKey = new Uint8Array(await subtle.exportKey("raw", local.publicKey))
+  const receiver = await subtle.importKey("raw", receiverKey, { name: "ECDH", namedCurve: "P-256" }, false, [])
+  const shared = new Uint8Array(await subtle.deriveBits({ name: "ECDH", public: receiver }, local.privateKey, 256))
+
+  const encoder = new TextEncoder()
+  const ikm = await hkdf(authSecret, shared, concat(encoder.encode("WebPush: info\0"), receiverKey, localKey), 32)
+  const salt = getRandomValues(new Uint8Array(16))
+  const cek = await hkdf(salt, ikm, encoder.encode("Content-Encoding: aes128gcm\0"), 16)
+  const nonce = await hkdf(salt, ikm, encoder.encode("Content-Encoding: nonce\0"), 12)
+
+  // 只有一条记录，结尾加上分隔符 0x02
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]))
+  const key = await subtle.importKey("raw", cek, "AES-GCM", false, ["encrypt"])
+  const ciphertext = new Uint8Array(await subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, plaintext))
+
+  const recordSize = new Uint8Array(4)
+  new DataView(recordSize.buffer).setUint32(0, 4096)
+  return concat(salt, recordSize, new Uint8Array([localKey.length]), localKey, ciphertext)
+}
+
+/**
+ * 发送 Web Push，返回推送服务的响应，404 和 410 表示订阅已经失效
+ */
+export async function sendWebPush(subscription: WebPushSubscription, payload: string, vapid: VAPIDKeys, ttl = 24 * 60 * 60) {
+  const body = await encrypt(subscription, payload)
+  return await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      "Authorization": await vapidAuthorization(subscription.endpoint, vapid),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      "TTL": String(ttl),
+    },
+    body,
+  })
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest"
+import { validateItems } from "./validate"
+
+describe("validate", () => {
+  it("合格的条目原样保留", () => {
+    const items = [
+      { id: 1, title: "a", url: "https://a.com/1", pubDate: 1700000000000, extra: { info: "x" } },
+      { id: "2", title: "b", url: "http://a.com/2", pubDate: "2024-10-11 12:30" },
+    ]
+    expect(validateItems(items)).toEqual({ items, dropped: 0, stripped: 0, fields: {} })
+  })
+
+  it("丢掉不合格和重复 id 的条目", () => {
+    const { items, dropped, fields } = validateItems([
+      { id: 1, title: "a", url: "https://a.com/1" },
+      { id: 1, title: "a", url: "https://a.com/1" },
+      { id: 2, title: " ", url: "/2" },
+      { id: "", title: "e", url: "https://a.com/5" },
+      { id: 6, title: "", url: "https://a.com/6", pubDate: "昨天" },
+    ])
+    expect(items.map(k => k.id)).toEqual([1])
+    expect(dropped).toBe(4)
+    expect(fields).toEqual({ id: 2, title: 2, url: 1, pubDate: 1 })
+  })
+
+  it("日期解析不了时只去掉日期", () => {
+    const { items, dropped, stripped, fields } = validateItems([
+      { id: 3, title: "c", url: "https://a.com/3", pubDate: "3分钟前" },
+      { id: 4, title: "d", url: "https://a.com/4", extra: { date: "", info: "x" } },
+    ])
+    expect(items).toEqual([
+      { id: 3, title: "c", url: "https://a.com/3" },
+      { id: 4, title: "d", url: "https://a.com/4", extra: { info: "x" } },
+    ])
+    expect(dropped).toBe(0)
+    expect(stripped).toBe(2)
+    expect(fields).toEqual({ "pubDate": 1, "extra.date": 1 })
+  })
+})
@@ -0,0 +1,85 @@
+import type { NewsItem } from "@shared/types"
+import { z } from "zod"
+
+const absoluteURL = z.string().refine((url) => {
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}, "Not an absolute url")
+
+const date = z.union([
+  z.number().finite().positive(),
+  z.string().refine(s => !Number.isNaN(new Date(s).getTime()), "Unparseable date"),
+])
+
+export const newsItemSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]),
+  title: z.string().refine(s => !!s.trim(), "Empty title"),
+  url: absoluteURL,
+  mobileUrl: absoluteURL.optional(),
+  pubDate: date.optional(),
+  extra: z.object({
+    date: date.optional(),
+  }).passthrough().optional(),
+})
+
+export interface ValidateResult {
+  items: NewsItem[]
+  dropped: number
+  /**
+   * 日期解析不了、去掉日期后保留下来的条数
+   */
+  stripped: number
+  /**
+   * 每个字段校验失败的条数，重复的 id 记在 id 上
+   */
+  fields: Record<string, number>
+}
+
+// 日期解析不了时只去掉日期，id、标题、链接都没问题的条目还能用
+const DateFields = ["pubDate", "extra.date"]
+
+function stripDates(item: NewsItem, paths: Set<string>) {
+  const stripped: NewsItem = { ...item }
+  if (paths.has("pubDate")) delete stripped.pubDate
+  if (paths.has("extra.date") && item.extra) {
+    stripped.extra = { ...item.extra }
+    delete stripped.extra.date
+  }
+  return stripped
+}
+
+/**
+ * 丢掉不合格的条目和重复 id 的条目，记下哪些字段出了问题
+ */
+export function validateItems(items: NewsItem[]): ValidateResult {
+  const fields: Record<string, number> = {}
+  const ids = new Set<NewsItem["id"]>()
+  let stripped = 0
+  const valid = items.flatMap((item) => {
+    const res = newsItemSchema.safeParse(item)
+    if (!res.success) {
+      const paths = new Set(res.error.issues.map(k => k.path.join(".") || "item"))
+      paths.forEach((k) => {
+        fields[k] = (fields[k] ?? 0) + 1
+      })
+      if (![...paths].every(k => DateFields.includes(k))) return []
+      item = stripDates(item, paths)
+      stripped++
+    }
+    if (ids.has(item.id)) {
+      fields.id = (fields.id ?? 0) + 1
+      return []
+    }
+    ids.add(item.id)
+    return [item]
+  })
+  return {
+    items: valid,
+    dropped: items.length - valid.length,
+    stripped,
+    fields,
+  }
+}
@@ -0,0 +1,89 @@
+import { createHmac } from "node:crypto"
+import type { IncomingMessage, Server } from "node:http"
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import type { Webhook } from "@shared/types"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { assertWebhookURL, buildRequest, deliver } from "./webhook"
+
+interface Received {
+  url: string
+  headers: IncomingMessage["headers"]
+  body: string
+}
+
+describe("webhook", () => {
+  // 本地接收端，按顺序返回 statuses 里的状态码
+  const received: Received[] = []
+  let statuses: number[] = []
+  let server: Server
+  let base = ""
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = ""
+      req.on("data", chunk => body += chunk)
+      req.on("end", () => {
+        received.push({ url: req.url!, headers: req.headers, body })
+        res.statusCode = statuses.shift() ?? 200
+        res.end("ok")
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve))
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  const webhook = (template: Webhook["template"], secret?: string): Webhook => ({
+    id: "w",
+    url: `${base}/hook`,
+    template,
+    sources: ["cls-telegraph"],
+    keywords: [],
+    secret,
+    created: 0,
+  })
+  const items = [{ id: "1", title: "央行降准", url: "https://example.com/1" }]
+
+  it("json 模板签名", async () => {
+    received.length = 0
+    const request = await buildRequest(webhook("json", "s3cret"), "cls-telegraph", items, 1000)
+    expect(await deliver(request)).toEqual({ ok: true })
+    const [{ headers, body }] = received
+    expect(JSON.parse(body)).toMatchObject({ source: "cls-telegraph", items })
+    expect(headers["x-newsnow-timestamp"]).toBe("1000")
+    expect(headers["x-newsnow-signature"]).toBe(`sha256=${createHmac("sha256", "s3cret").update(`1000.${body}`).digest("hex")}`)
+  })
+
+  it("钉钉签在 url 上", async () => {
+    received.length = 0
+    await deliver(await buildRequest(webhook("dingtalk", "s3cret"), "cls-telegraph", items, 1000))
+    const sign = createHmac("sha256", "s3cret").update("1000\ns3cret").digest("base64")
+    expect(received[0].url).toBe(`/hook?timestamp=1000&sign=${encodeURIComponent(sign)}`)
+    expect(JSON.parse(received[0].body).msgtype).toBe("markdown")
+  })
+
+  it("5xx 重试，4xx 不重试", async () => {
+    received.length = 0
+    statuses = [500, 502, 200]
+    const request = await buildRequest(webhook("slack"), "cls-telegraph", items)
+    expect(await deliver(request, { backoff: 1 })).toEqual({ ok: true })
+    expect(received.length).toBe(3)
+
+    received.length = 0
+    statuses = [400]
+    expect(await deliver(request, { backoff: 1 })).toEqual({ ok: false, error: "HTTP 400" })
+    expect(received.length).toBe(1)
+  })
+
+  it("不推送到内网地址", async () => {
+    await expect(assertWebhookURL("http://169.254.169.254/latest/meta-data")).rejects.toThrow("Private host")
+    await expect(assertWebhookURL("http://127.0.0.1:8080/hook")).rejects.toThrow("Private host")
+    await expect(assertWebhookURL("http://localhost/hook")).rejects.toThrow("Private host")
+    await expect(assertWebhookURL("ftp://8.8.8.8/hook")).rejects.toThrow("Invalid webhook url")
+    await expect(assertWebhookURL("https://8.8.8.8/hook")).resolves.toBeUndefined()
+  })
+})
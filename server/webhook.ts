@@ -0,0 +1,166 @@
+import { Buffer } from "node:buffer"
+import type { NewsItem, SourceID, Webhook } from "@shared/types"
+import { getWebhookTable } from "./database/webhook"
+import { assertPublicHost } from "./image-proxy"
+
+export interface WebhookRequest {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+// 聊天工具单条消息有长度限制，分批发
+const BatchSize = 20
+const Timeout = 10 * 1000
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("")
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64")
+
+export function renderPayload(template: Webhook["template"], source: SourceID, items: NewsItem[]): Record<string, any> {
+  const name = sources[source].title ? `${sources[source].name}-${sources[source].title}` : sources[source].name
+  const lines = items.map(k => `- [${k.title}](${k.url})`).join("\n")
+  switch (template) {
+    case "slack":
+      return {
+        text: `*${name}*\n${items.map(k => `• <${k.url}|${k.title}>`).join("\n")}`,
+      }
+    case "dingtalk":
+      return {
+        msgtype: "markdown",
+        markdown: {
+          title: name,
+          text: `#### ${name}\n${lines}`,
+        },
+      }
+    case "feishu":
+      return {
+        msg_type: "post",
+        content: {
+          post: {
+            zh_cn: {
+              title: name,
+              content: items.map(k => [{ tag: "a", text: k.title, href: k.url }]),
+            },
+          },
+        },
+      }
+    case "wecom":
+      return {
+        msgtype: "markdown",
+        markdown: {
+          content: `**${name}**\n${lines}`,
+        },
+      }
+    default:
+      return {
+        source,
+        name,
+        items,
+      }
+  }
+}
+
+/**
+ * 生成请求，有 secret 时加签。钉钉签在 url 上，飞书签在 body 里，其他的签在请求头
+ */
+export async function buildRequest(webhook: Webhook, source: SourceID, items: NewsItem[], now = Date.now()): Promise<WebhookRequest> {
+  const payload = renderPayload(webhook.template, source, items)
+  const { secret } = webhook
+  let url = webhook.url
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (secret && webhook.template === "dingtalk") {
+    const sign = toBase64(await hmacSHA256(secret, `${now}\n${secret}`))
+    url += `${url.includes("?") ? "&" : "?"}timestamp=${now}&sign=${encodeURIComponent(sign)}`
+  } else if (secret && webhook.template === "feishu") {
+    const timestamp = String(Math.floor(now / 1000))
+    payload.timestamp = timestamp
+    payload.sign = toBase64(await hmacSHA256(`${timestamp}\n${secret}`, ""))
+  }
+  const body = JSON.stringify(payload)
+  if (secret && !["dingtalk", "feishu"].includes(webhook.template)) {
+    headers["X-NewsNow-Timestamp"] = String(now)
+    headers["X-NewsNow-Signature"] = `sha256=${toHex(await hmacSHA256(secret, `${now}.${body}`))}`
+  }
+  return { url, headers, body }
+}
+
+/**
+ * 只能推到公网的 http(s) 地址，保存时和推送前都要检查，域名可能在保存后改指向内网
+ */
+export async function assertWebhookURL(url: string) {
+  if (!URL.canParse(url) || !["http:", "https:"].includes(new URL(url).protocol)) throw new Error("Invalid webhook url")
+  await assertPublicHost(new URL(url).hostname)
+}
+
+/**
+ * 5xx、429 和网络错误会重试，其他错误直接失败。
+ * 钉钉、飞书和企业微信出错时也返回 200，要看 body 里的错误码。
+ */
+export async function deliver({ url, headers, body }: WebhookRequest, { retries = 3, backoff = 1000 } = {}) {
+  let error = ""
+  for (let i = 0; i <= retries; i++) {
+    if (i) await delay(backoff * 2 ** (i - 1))
+    try {
+      // 不跟随跳转，免得被转到内网
+      const res = await fetch(url, { method: "POST", headers, body, redirect: "manual", signal: AbortSignal.timeout(Timeout) })
+      const text = await res.text()
+      if (res.ok) {
+        const data = safeParseJSON(text)
+        const code = data?.errcode ?? data?.code ?? 0
+        if (code === 0) return { ok: true }
+        return { ok: false, error: `${code} ${data?.errmsg ?? data?.msg ?? ""}`.trim() }
+      }
+      error = `HTTP ${res.status}`
+      if (res.status < 500 && res.status !== 429) break
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+    }
+  }
+  return { ok: false, error }
+}
+
+function safeParseJSON(text: string) {
+  try {
+    return JSON.parse(text)
+  } catch {}
+}
+
+/**
+ * 源有新条目时推送给订阅了它的 webhook
+ */
+export async function dispatchWebhooks(source: SourceID, items: NewsItem[]) {
+  try {
+    const webhookTable = await getWebhookTable()
+    if (!webhookTable) return
+    const webhooks = await webhookTable.getBySource(source)
+    await Promise.all(webhooks.map(async (webhook) => {
+      const keywords = webhook.keywords.map(k => k.toLowerCase())
+      const matched = keywords.length
+        ? items.filter(item => keywords.some(k => item.title.toLowerCase().includes(k)))
+        : items
+      if (!matched.length) return
+      try {
+        await assertWebhookURL(webhook.url)
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e)
+        await webhookTable.setStatus(webhook.id, false, error)
+        logger.warn(`webhook ${webhook.id} of ${source} skipped: ${error}`)
+        return
+      }
+      for (let i = 0; i < matched.length; i += BatchSize) {
+        const request = await buildRequest(webhook, source, matched.slice(i, i + BatchSize))
+        const { ok, error } = await deliver(request)
+        await webhookTable.setStatus(webhook.id, ok, error)
+        if (!ok) {
+          logger.warn(`webhook ${webhook.id} of ${source} failed: ${error}`)
+          return
+        }
+      }
+      logger.success(`webhook ${webhook.id} sent ${matched.length} items of ${source}`)
+    }))
+  } catch (e) {
+    logger.error(e)
+  }
+}
@@ -0,0 +1,41 @@
+// 由 scripts/source.ts 从 server/sources 里带元数据的 defineSource 生成，不要手动修改
+import type { OriginSource } from "./types"
+
+export const definedSources = {
+  "bilibili": {
+    "name": "哔哩哔哩",
+    "color": "blue",
+    "home": "https://www.bilibili.com",
+    "pictureHosts": [
+      "*.hdslb.com",
+      "*.biliimg.com"
+    ],
+    "sub": {
+      "hot-search": {
+        "title": "热搜",
+        "column": "china",
+        "type": "hottest"
+      },
+      "hot-video": {
+        "title": "热门视频",
+        "disable": "cf",
+        "column": "china",
+        "type": "hottest"
+      },
+      "ranking": {
+        "title": "排行榜",
+        "column": "china",
+        "disable": "cf",
+        "type": "hottest",
+        "interval": 1800000
+      }
+    }
+  },
+  "solidot": {
+    "name": "Solidot",
+    "color": "teal",
+    "column": "tech",
+    "home": "https://solidot.org",
+    "interval": 3600000
+  }
+} as const satisfies Record<string, OriginSource>
@@ -1,9 +1,11 @@
 import process from "node:process"
 import { Interval } from "./consts"
 import { typeSafeObjectFromEntries } from "./type.util"
-import type { OriginSource, Source, SourceID } from "./types"
+import type { OriginSource, ScraperSource, Source, SourceID } from "./types"
+import _scrapers from "./scrapers.json"
+import { definedSources } from "./defined-sources"
 
-const Time = {
+export const Time = {
   Test: 1,
   Realtime: 2 * 60 * 1000,
   Fast: 5 * 60 * 1000,
@@ -13,6 +15,13 @@ const Time = {
 }
 
 export const originSources = {
+  "trending": {
+    name: "全网热榜",
+    type: "hottest",
+    column: "china",
+    color: "red",
+    desc: "合并各平台热榜，同一事件上榜的平台越多越靠前",
+  },
   "v2ex": {
     name: "V2EX",
     color: "slate",
@@ -39,6 +48,7 @@ export const originSources = {
     color: "red",
     interval: Time.Realtime,
     home: "https://weibo.com",
+    pictureHosts: ["*.weibo.com", "*.sinaimg.cn"],
   },
   "zaobao": {
     name: "联合早报",
@@ -122,6 +132,7 @@ export const originSources = {
     column: "china",
     color: "red",
     home: "https://www.toutiao.com",
+    pictureHosts: ["*.byteimg.com", "*.toutiaoimg.com", "*.toutiaostatic.com", "*.pstatp.com"],
   },
   "ithome": {
     name: "IT之家",
@@ -229,13 +240,6 @@ export const originSources = {
       },
     },
   },
-  "solidot": {
-    name: "Solidot",
-    color: "teal",
-    column: "tech",
-    home: "https://solidot.org",
-    interval: Time.Slow,
-  },
   "hackernews": {
     name: "Hacker News",
     color: "orange",
@@ -262,31 +266,6 @@ export const originSources = {
       },
     },
   },
-  "bilibili": {
-    name: "哔哩哔哩",
-    color: "blue",
-    home: "https://www.bilibili.com",
-    sub: {
-      "hot-search": {
-        title: "热搜",
-        column: "china",
-        type: "hottest",
-      },
-      "hot-video": {
-        title: "热门视频",
-        disable: "cf",
-        column: "china",
-        type: "hottest",
-      },
-      "ranking": {
-        title: "排行榜",
-        column: "china",
-        disable: "cf",
-        type: "hottest",
-        interval: Time.Common,
-      },
-    },
-  },
   "kuaishou": {
     name: "快手",
     type: "hottest",
@@ -295,6 +274,7 @@ export const originSources = {
     // cloudflare pages cannot access
     disable: "cf",
     home: "https://www.kuaishou.com",
+    pictureHosts: ["*.yximgs.com", "*.kwimgs.com", "*.kuaishou.com"],
   },
   "kaopu": {
     name: "靠谱新闻",
@@ -400,10 +380,35 @@ export const originSources = {
   },
 } as const satisfies Record<string, OriginSource>
 
-export function genSources() {
+/**
+ * 配置文件里声明的源，由 scripts/source.ts 从项目根目录的 scrapers.json 生成
+ */
+export const scraperSources = _scrapers as Record<string, ScraperSource>
+
+/**
+ * 元数据写在 defineSource 里的源排在哪个源前面，保持原来在 originSources 里的顺序，栏目里默认按这个顺序
+ */
+const definedSourcePosition: Record<string, string> = {
+  solidot: "hackernews",
+  bilibili: "kuaishou",
+}
+
+export function genSources({ defined = definedSources as Record<string, OriginSource>, scrapers = scraperSources } = {}) {
   const _: [SourceID, Source][] = []
 
-  Object.entries(originSources).forEach(([id, source]: [any, OriginSource]) => {
+  const builtin: Record<string, OriginSource> = {}
+  Object.entries(originSources).forEach(([id, source]) => {
+    Object.entries(defined).filter(([k]) => definedSourcePosition[k] === id).forEach(([k, v]) => builtin[k] = v)
+    builtin[id] = source
+  })
+  // 没指定位置的排在最后
+  Object.assign(builtin, defined)
+  // 和内置的源重名时用内置的
+  const all: [string, OriginSource][] = [
+    ...Object.entries(builtin),
+    ...Object.entries(scrapers).filter(([id]) => !(id in builtin)),
+  ]
+  all.forEach(([id, source]: [any, OriginSource]) => {
     const parent = {
       name: source.name,
       type: source.type,
@@ -411,6 +416,7 @@ export function genSources() {
       desc: source.desc,
       column: source.column,
       home: source.home,
+      pictureHosts: source.pictureHosts,
       color: source.color ?? "primary",
       interval: source.interval ?? Time.Default,
     }
@@ -434,7 +440,8 @@ export function genSources() {
   })
 
   return typeSafeObjectFromEntries(_.filter(([_, v]) => {
-    if (v.disable === "cf" && process.env.CF_PAGES) {
+    // 配置了上游实例时，cloudflare 上跑不了的源可以从上游拿
+    if (v.disable === "cf" && process.env.CF_PAGES && !process.env.UPSTREAM_INSTANCES) {
       return false
     } else if (v.disable === true) {
       return false
@@ -1,10 +1,11 @@
 import type { colors } from "unocss/preset-mini"
 import type { columns, fixedColumnIds } from "./metadata"
 import type { originSources } from "./pre-sources"
+import type { definedSources } from "./defined-sources"
 
 export type Color = "primary" | Exclude<keyof typeof colors, "current" | "inherit" | "transparent" | "black" | "white">
 
-type ConstSources = typeof originSources
+type ConstSources = typeof originSources & typeof definedSources
 type MainSourceID = keyof(ConstSources)
 
 export type SourceID = {
@@ -77,6 +78,10 @@ export interface Source {
    */
   disable?: boolean | "cf"
   redirect?: SourceID
+  /**
+   * 用 proxyPicture 代理的图片域名，*. 开头匹配子域名。图片代理只放行这些域名
+   */
+  pictureHosts?: string[]
 }
 
 export interface Column {
@@ -107,4 +112,231 @@ export interface SourceResponse {
   id: SourceID
   updatedTime: number | string
   items: NewsItem[]
+  /**
+   * 上游连续失败被熔断时才有
+   */
+  breaker?: SourceBreaker
+  /**
+   * 数据是从其他 NewsNow 实例拿到的
+   */
+  upstream?: SourceUpstream
+}
+
+export interface SourceUpstream {
+  instance: string
+  /**
+   * 上游那边数据的更新时间
+   */
+  updatedTime: number | string
+}
+
+export interface SourceBreaker {
+  /**
+   * half-open 表示已经到了可以试探的时间
+   */
+  state: "open" | "half-open"
+  failures: number
+  retryAt: number
+}
+
+export interface SourceHistoryResponse extends SourceResponse {
+  /**
+   * 可供回溯的快照时间，升序
+   */
+  times: number[]
+}
+
+export interface RankTrajectory {
+  item: string
+  /**
+   * 首次上榜时间
+   */
+  firstSeen: number
+  lastSeen: number
+  /**
+   * 最高排名，从 1 开始
+   */
+  peak: number
+  /**
+   * 在榜时长，ms
+   */
+  duration: number
+  points: {
+    time: number
+    rank: number
+  }[]
+}
+
+export interface RankTrajectoryResponse extends Partial<RankTrajectory> {
+  id: SourceID
+}
+
+export interface SearchResult {
+  source: SourceID
+  updated: number
+  item: NewsItem
+}
+
+export interface SourceHealth {
+  id: SourceID
+  total: number
+  success: number
+  /**
+   * 成功率 0-1，没有记录时为空
+   */
+  uptime?: number
+  /**
+   * 平均耗时，ms
+   */
+  latency: number
+  lastStatus?: "success" | "failed"
+  lastCount?: number
+  lastSuccess?: number
+  lastError?: {
+    message: string
+    time: number
+  }
+  updated?: number
+  drift?: SourceDrift
+}
+
+/**
+ * getter 输出没通过校验被丢掉的条目
+ */
+export interface SourceDrift {
+  dropped: number
+  /**
+   * 有丢弃的那几次拉取一共返回了多少条
+   */
+  total: number
+  /**
+   * 字段名到失败条数，重复的 id 记在 id 上
+   */
+  fields: Record<string, number>
+  updated: number
+}
+
+export interface StoryCluster {
+  /**
+   * 取第一条的标题
+   */
+  title: string
+  /**
+   * 出现在哪些源，至少两个平台
+   */
+  sources: SourceID[]
+  items: {
+    source: SourceID
+    item: NewsItem
+  }[]
+}
+
+export interface AlertRule {
+  id: string
+  /**
+   * 标题包含任意一个关键词就提醒，不区分大小写
+   */
+  keywords: string[]
+  /**
+   * 为空时匹配所有源
+   */
+  sources: SourceID[]
+  created: number
+}
+
+export type WebhookTemplate = "json" | "slack" | "dingtalk" | "feishu" | "wecom"
+
+export interface Webhook {
+  id: string
+  url: string
+  template: WebhookTemplate
+  sources: SourceID[]
+  /**
+   * 为空时不过滤，否则标题包含任意一个才推送
+   */
+  keywords: string[]
+  /**
+   * json 和 slack 模板签在 X-NewsNow-Signature 头里，钉钉和飞书按各自的加签规则。只在创建时传，接口不返回
+   */
+  secret?: string
+  hasSecret?: boolean
+  created: number
+  lastStatus?: "success" | "failed"
+  lastError?: string
+  lastTime?: number
+}
+
+/**
+ * 用户自己订阅的 RSS/Atom，作为卡片放在关注栏目里
+ */
+export interface FeedSubscription {
+  /**
+   * feed- 加订阅地址 md5 的前 12 位，同一个地址的订阅共用缓存
+   */
+  id: SourceID
+  url: string
+  title: string
+  home?: string
+  created: number
+}
+
+/**
+ * css 选择器或者 json 路径，默认取文本
+ */
+export type ScraperField = string | {
+  selector: string
+  /**
+   * 取属性，比如 href，不填取文本
+   */
+  attr?: string
+  /**
+   * 有捕获组取第一个捕获组，否则取整个匹配
+   */
+  regex?: string
+  /**
+   * 相对地址时拼上前缀
+   */
+  prefix?: string
+}
+
+export interface ScraperSpec {
+  url: string
+  /**
+   * html 用 css 选择器，json 用点分隔的路径
+   * @default "html"
+   */
+  type?: "html" | "json"
+  /**
+   * 比如 gb2312
+   * @default "utf-8"
+   */
+  encoding?: string
+  headers?: Record<string, string>
+  /**
+   * 每一条的选择器或路径，字段相对于它取
+   */
+  list: string
+  fields: {
+    title: ScraperField
+    url: ScraperField
+    /**
+     * 不填用 url
+     */
+    id?: ScraperField
+    date?: ScraperField
+    info?: ScraperField
+    hover?: ScraperField
+  }
+  /**
+   * 日期不带时区时按这个时区解析
+   * @default "Asia/Shanghai"
+   */
+  timezone?: string
+}
+
+/**
+ * 配置文件里的源，不支持子源
+ */
+export interface ScraperSource extends Omit<OriginSource, "sub"> {
+  scraper: ScraperSpec
 }
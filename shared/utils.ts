@@ -38,3 +38,10 @@ export function randomUUID() {
 export function randomItem<T>(arr: T[]) {
   return arr[Math.floor(Math.random() * arr.length)]
 }
+
+/**
+ * 用户订阅的 RSS 源，不在 sources 里
+ */
+export function isFeedSourceID(id: string) {
+  return /^feed-[\da-f]{12}$/.test(id)
+}
@@ -1,4 +1,5 @@
 import z from "zod"
+import type { ScraperSource } from "./types"
 
 export function verifyPrimitiveMetadata(target: any) {
   return z.object({
@@ -6,3 +7,46 @@ export function verifyPrimitiveMetadata(target: any) {
     updatedTime: z.number(),
   }).parse(target)
 }
+
+const scraperField = z.union([
+  z.string(),
+  z.object({
+    selector: z.string(),
+    attr: z.string().optional(),
+    regex: z.string().optional(),
+    prefix: z.string().optional(),
+  }),
+])
+
+/**
+ * id 不能带 -，带 - 的是子源
+ */
+export function verifyScraperSources(target: any) {
+  return z.record(z.string().regex(/^[a-z\d_]+$/), z.object({
+    name: z.string(),
+    title: z.string().optional(),
+    desc: z.string().optional(),
+    type: z.enum(["hottest", "realtime"]).optional(),
+    column: z.enum(["china", "world", "tech", "finance"]).optional(),
+    color: z.string().optional(),
+    home: z.string().optional(),
+    interval: z.number().positive().optional(),
+    disable: z.union([z.boolean(), z.literal("cf")]).optional(),
+    scraper: z.object({
+      url: z.string().url(),
+      type: z.enum(["html", "json"]).optional(),
+      encoding: z.string().optional(),
+      headers: z.record(z.string(), z.string()).optional(),
+      list: z.string(),
+      fields: z.object({
+        title: scraperField,
+        url: scraperField,
+        id: scraperField.optional(),
+        date: scraperField.optional(),
+        info: scraperField.optional(),
+        hover: scraperField.optional(),
+      }),
+      timezone: z.string().optional(),
+    }),
+  })).parse(target) as Record<string, ScraperSource>
+}
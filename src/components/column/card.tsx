@@ -1,7 +1,8 @@
-import type { NewsItem, SourceID, SourceResponse } from "@shared/types"
+import type { NewsItem, RankTrajectoryResponse, SourceBreaker, SourceHistoryResponse, SourceID, SourceResponse, SourceUpstream, StoryCluster } from "@shared/types"
 import { useQuery } from "@tanstack/react-query"
 import { AnimatePresence, motion, useInView } from "framer-motion"
 import { useWindowSize } from "react-use"
+import { useDebounce } from "ahooks"
 import { forwardRef, useImperativeHandle } from "react"
 import { OverlayScrollbar } from "../common/overlay-scrollbar"
 import { safeParseString } from "~/utils"
@@ -22,6 +23,7 @@ interface NewsCardProps {
 
 export const CardWrapper = forwardRef<HTMLElement, ItemsProps>(({ id, isDragging, setHandleRef, style, ...props }, dndRef) => {
   const ref = useRef<HTMLDivElement>(null)
+  const source = useSourceMeta(id)
 
   const inView = useInView(ref, {
     once: true,
@@ -37,7 +39,7 @@ export const CardWrapper = forwardRef<HTMLElement, ItemsProps>(({ id, isDragging
         // "backdrop-blur-5",
         "transition-opacity-300",
         isDragging && "op-50",
-        `bg-${sources[id].color}-500 dark:bg-${sources[id].color} bg-op-40!`,
+        `bg-${source.color}-500 dark:bg-${source.color} bg-op-40!`,
       )}
       style={{
         transformOrigin: "50% 50%",
@@ -52,6 +54,7 @@ export const CardWrapper = forwardRef<HTMLElement, ItemsProps>(({ id, isDragging
 
 function NewsCard({ id, setHandleRef }: NewsCardProps) {
   const { refresh } = useRefetch()
+  const source = useSourceMeta(id)
   const { data, isFetching, isError } = useQuery({
     queryKey: ["source", id],
     queryFn: async ({ queryKey }) => {
@@ -67,6 +70,9 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
         // wait animation
         await delay(200)
         return cacheSources.get(id)
+      } else if (batchingSources.has(id)) {
+        await batchingSources.get(id)!.catch(() => {})
+        if (cacheSources.has(id)) return cacheSources.get(id)
       }
 
       const response: SourceResponse = await myFetch(url, {
@@ -75,7 +81,7 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
 
       function diff() {
         try {
-          if (response.items && sources[id].type === "hottest" && cacheSources.has(id)) {
+          if (response.items && sources[id]?.type === "hottest" && cacheSources.has(id)) {
             response.items.forEach((item, i) => {
               const o = cacheSources.get(id)!.items.findIndex(k => k.id === item.id)
               item.extra = {
@@ -103,6 +109,31 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
   })
 
   const { isFocused, toggleFocus } = useFocusWith(id)
+  const [historyMode, setHistoryMode] = useState(false)
+  const [historyAt, setHistoryAt] = useState<number>()
+  const { data: history, isFetching: isHistoryFetching, isError: isHistoryError } = useQuery({
+    queryKey: ["history", id, historyAt],
+    queryFn: async ({ queryKey }) => {
+      const [, id, at] = queryKey as ["history", SourceID, number | undefined]
+      const response: SourceHistoryResponse = await myFetch(`/s/history?id=${id}${at ? `&at=${at}` : ""}`)
+      return response
+    },
+    enabled: historyMode,
+    placeholderData: prev => prev,
+    staleTime: Infinity,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  const toggleHistory = useCallback(() => {
+    setHistoryMode(v => !v)
+    setHistoryAt(undefined)
+  }, [])
+
+  const shown = historyMode ? history : data
+  const fetching = historyMode ? isHistoryFetching : isFetching
 
   return (
     <>
@@ -111,8 +142,8 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
           <a
             className={$("w-8 h-8 rounded-full bg-cover")}
             target="_blank"
-            href={sources[id].home}
-            title={sources[id].desc}
+            href={source.home}
+            title={source.desc}
             style={{
               backgroundImage: `url(/icons/${id.split("-")[0]}.png)`,
             }}
@@ -121,21 +152,34 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
             <span className="flex items-center gap-2">
               <span
                 className="text-xl font-bold"
-                title={sources[id].desc}
+                title={source.desc}
               >
-                {sources[id].name}
+                {source.name}
               </span>
-              {sources[id]?.title && <span className={$("text-sm", `color-${sources[id].color} bg-base op-80 bg-op-50! px-1 rounded`)}>{sources[id].title}</span>}
+              {source.title && <span className={$("text-sm", `color-${source.color} bg-base op-80 bg-op-50! px-1 rounded`)}>{source.title}</span>}
+            </span>
+            <span className="text-xs op-70">
+              {historyMode
+                ? <HistoryTime isError={isHistoryError} updatedTime={history?.updatedTime} />
+                : <UpdatedTime isError={isError} updatedTime={data?.updatedTime} breaker={data?.breaker} upstream={data?.upstream} />}
             </span>
-            <span className="text-xs op-70"><UpdatedTime isError={isError} updatedTime={data?.updatedTime} /></span>
           </span>
         </div>
-        <div className={$("flex gap-2 text-lg", `color-${sources[id].color}`)}>
+        <div className={$("flex gap-2 text-lg", `color-${source.color}`)}>
           <button
             type="button"
             className={$("btn i-ph:arrow-counter-clockwise-duotone", isFetching && "animate-spin i-ph:circle-dashed-duotone")}
             onClick={() => refresh(id)}
           />
+          {/* 用户订阅的源不存历史 */}
+          {!!sources[id] && (
+            <button
+              type="button"
+              title="历史回溯"
+              className={$("btn i-ph:clock-counter-clockwise-duotone", historyMode && "op-100!")}
+              onClick={toggleHistory}
+            />
+          )}
           <button
             type="button"
             className={$("btn", isFocused ? "i-ph:star-fill" : "i-ph:star-duotone")}
@@ -151,32 +195,89 @@ function NewsCard({ id, setHandleRef }: NewsCardProps) {
         </div>
       </div>
 
+      {historyMode && !!history?.times.length && (
+        <HistorySlider
+          times={history.times}
+          updatedTime={history.updatedTime as number}
+          onChange={setHistoryAt}
+        />
+      )}
+
       <OverlayScrollbar
         className={$([
           "h-full p-2 overflow-y-auto rounded-2xl bg-base bg-op-70!",
-          isFetching && `animate-pulse`,
-          `sprinkle-${sources[id].color}`,
+          fetching && `animate-pulse`,
+          `sprinkle-${source.color}`,
         ])}
         options={{
           overflow: { x: "hidden" },
         }}
         defer
       >
-        <div className={$("transition-opacity-500", isFetching && "op-20")}>
-          {!!data?.items?.length && (sources[id].type === "hottest" ? <NewsListHot items={data.items} /> : <NewsListTimeLine items={data.items} />)}
+        <div className={$("transition-opacity-500", fetching && "op-20")}>
+          {!!shown?.items?.length && (source.type === "hottest" ? <NewsListHot id={id} items={shown.items} /> : <NewsListTimeLine items={shown.items} />)}
         </div>
       </OverlayScrollbar>
     </>
   )
 }
 
-function UpdatedTime({ isError, updatedTime }: { updatedTime: any, isError: boolean }) {
+function UpdatedTime({ isError, updatedTime, breaker, upstream }: { updatedTime: any, isError: boolean, breaker?: SourceBreaker, upstream?: SourceUpstream }) {
   const relativeTime = useRelativeTime(updatedTime ?? "")
+  if (relativeTime && upstream) {
+    return (
+      <span title={`数据来自 ${upstream.instance}`}>
+        {`${relativeTime}从上游更新`}
+      </span>
+    )
+  }
+  if (relativeTime && breaker) {
+    return (
+      <span title={`上游连续失败 ${breaker.failures} 次，${new Date(breaker.retryAt).toLocaleTimeString()} 后重试`}>
+        {`源暂时不可用，显示${relativeTime}的缓存`}
+      </span>
+    )
+  }
   if (relativeTime) return `${relativeTime}更新`
   if (isError) return "获取失败"
   return "加载中..."
 }
 
+function HistoryTime({ isError, updatedTime }: { updatedTime?: number | string, isError: boolean }) {
+  if (isError) return "暂无历史"
+  if (updatedTime) return `${new Date(updatedTime).toLocaleString()}的快照`
+  return "加载中..."
+}
+
+function HistorySlider({ times, updatedTime, onChange }: {
+  times: number[]
+  updatedTime: number
+  onChange: (at: number) => void
+}) {
+  const [index, setIndex] = useState(() => {
+    const i = times.filter(t => t <= updatedTime).length - 1
+    return i === -1 ? times.length - 1 : i
+  })
+  // 拖动时不要每一步都去请求
+  const debouncedIndex = useDebounce(index, { wait: 300 })
+  useEffect(() => {
+    const at = times[debouncedIndex]
+    if (at && at !== updatedTime) onChange(at)
+  }, [debouncedIndex, times, updatedTime, onChange])
+
+  return (
+    <input
+      type="range"
+      className="mx-2 mb-2"
+      min={0}
+      max={times.length - 1}
+      value={index}
+      title={new Date(times[index]).toLocaleString()}
+      onChange={e => setIndex(Number(e.target.value))}
+    />
+  )
+}
+
 function DiffNumber({ diff }: { diff: number }) {
   const [shown, setShown] = useState(true)
   useEffect(() => {
@@ -210,7 +311,8 @@ function ExtraInfo({ item }: { item: NewsItem }) {
     const { url, scale } = typeof item.extra.icon === "string" ? { url: item.extra.icon, scale: undefined } : item.extra.icon
     return (
       <img
-        src={url}
+        // 经过代理的图片让服务端缩小到两倍的显示高度
+        src={url.startsWith("/api/proxy/img.png") ? `${url}&h=${Math.ceil(16 * (scale ?? 1) * 2)}` : url}
         style={{
           transform: `scale(${scale ?? 1})`,
         }}
@@ -225,8 +327,92 @@ function NewsUpdatedTime({ date }: { date: string | number }) {
   const relativeTime = useRelativeTime(date)
   return <>{relativeTime}</>
 }
-function NewsListHot({ items }: { items: NewsItem[] }) {
+function RankSparkline({ id, item }: { id: SourceID, item: NewsItem["id"] }) {
+  const { data } = useQuery({
+    queryKey: ["rank", id, item],
+    queryFn: async ({ queryKey }) => {
+      const [, id, item] = queryKey as ["rank", SourceID, NewsItem["id"]]
+      const response: RankTrajectoryResponse = await myFetch(`/s/rank?id=${id}&item=${encodeURIComponent(item)}`)
+      return response
+    },
+    staleTime: 1000 * 60,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  const points = data?.points
+  if (!points || points.length < 2) return null
+
+  const w = 48
+  const h = 14
+  const maxRank = Math.max(...points.map(p => p.rank))
+  const start = points[0].time
+  const span = points[points.length - 1].time - start || 1
+  const path = points.map(p => `${((p.time - start) / span * w).toFixed(1)},${(maxRank === 1 ? h / 2 : (p.rank - 1) / (maxRank - 1) * h).toFixed(1)}`).join(" ")
+  const hours = Math.round(data.duration! / 1000 / 60 / 6) / 10
+  const rising = points[points.length - 1].rank <= points[0].rank
+
+  return (
+    <svg
+      width={w}
+      height={h}
+      viewBox={`-1 -1 ${w + 2} ${h + 2}`}
+      className={$("inline align-middle ml-1 shrink-0", rising ? "color-green" : "color-red")}
+    >
+      <title>{`${new Date(data.firstSeen!).toLocaleString()}首次上榜，最高第${data.peak}名，在榜${hours}小时`}</title>
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  )
+}
+
+/**
+ * 同一事件还出现在哪些平台的热榜上
+ */
+function useAlsoTrending(id: SourceID) {
+  const { data } = useQuery({
+    queryKey: ["clusters"],
+    queryFn: async () => {
+      const response: StoryCluster[] = await myFetch("/s/clusters")
+      return response
+    },
+    staleTime: 1000 * 60 * 5,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  return useMemo(() => {
+    const platform = id.split("-")[0]
+    const map = new Map<NewsItem["id"], SourceID[]>()
+    data?.forEach((cluster) => {
+      cluster.items.forEach(({ source, item }) => {
+        if (source === id) map.set(item.id, cluster.sources.filter(k => k.split("-")[0] !== platform))
+      })
+    })
+    return map
+  }, [data, id])
+}
+
+function AlsoTrending({ ids }: { ids: SourceID[] }) {
+  const names = ids.map(k => sources[k]?.name).filter(Boolean).join("、")
+  return (
+    <span className="inline-flex gap-0.5 align-middle mr-1" title={`也在${names}上热榜`}>
+      {ids.map(k => (
+        <span
+          key={k}
+          className="w-3.5 h-3.5 rounded-full bg-cover"
+          style={{
+            backgroundImage: `url(/icons/${k.split("-")[0]}.png)`,
+          }}
+        />
+      ))}
+    </span>
+  )
+}
+
+function NewsListHot({ id, items }: { id: SourceID, items: NewsItem[] }) {
   const { width } = useWindowSize()
+  const [hovered, setHovered] = useState<NewsItem["id"]>()
+  const alsoTrending = useAlsoTrending(id)
   return (
     <ol className="flex flex-col gap-2">
       {items?.map((item, i) => (
@@ -235,6 +421,8 @@ function NewsListHot({ items }: { items: NewsItem[] }) {
           target="_blank"
           key={item.id}
           title={item.extra?.hover}
+          onMouseEnter={() => setHovered(item.id)}
+          onMouseLeave={() => setHovered(undefined)}
           className={$(
             "flex gap-2 items-center items-stretch relative cursor-pointer [&_*]:cursor-pointer transition-all",
             "hover:bg-neutral-400/10 rounded-md pr-1 visited:(text-neutral-400)",
@@ -248,9 +436,11 @@ function NewsListHot({ items }: { items: NewsItem[] }) {
             <span className="mr-2 text-base">
               {item.title}
             </span>
+            {!!alsoTrending.get(item.id)?.length && <AlsoTrending ids={alsoTrending.get(item.id)!} />}
             <span className="text-xs text-neutral-400/80 truncate align-middle">
               <ExtraInfo item={item} />
             </span>
+            {hovered === item.id && <RankSparkline id={id} item={item.id} />}
           </span>
         </a>
       ))}
@@ -1,7 +1,9 @@
 import { Command } from "cmdk"
-import { useMount } from "react-use"
-import type { SourceID } from "@shared/types"
+import { useMount, useWindowSize } from "react-use"
+import type { SearchResult, SourceID } from "@shared/types"
 import { useMemo, useRef, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useDebounce } from "ahooks"
 import pinyin from "@shared/pinyin.json"
 import { OverlayScrollbar } from "../overlay-scrollbar"
 import { CardWrapper } from "~/components/column/card"
@@ -53,7 +55,22 @@ export function SearchBar() {
   )
   const inputRef = useRef<HTMLInputElement | null>(null)
 
-  const [value, setValue] = useState<SourceID>("github-trending-today")
+  const [value, setValue] = useState<string>("github-trending-today")
+  const [preview, setPreview] = useState<SourceID>("github-trending-today")
+  const [mode, setMode] = useState<"source" | "news">("source")
+  const [search, setSearch] = useState("")
+  const q = useDebounce(search.trim(), { wait: 300 })
+  const { data: newsItems, isFetching } = useQuery({
+    queryKey: ["search", q],
+    queryFn: async ({ queryKey }) => {
+      const res: SearchResult[] = await myFetch(`/search?q=${encodeURIComponent(queryKey[1])}`)
+      return res
+    },
+    enabled: mode === "news" && !!q,
+    staleTime: 1000 * 60,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
 
   useMount(() => {
     inputRef?.current?.focus()
@@ -74,35 +91,70 @@ export function SearchBar() {
       open={opened}
       onOpenChange={toggle}
       value={value}
+      shouldFilter={mode === "source"}
       onValueChange={(v) => {
-        if (v in sources) {
-          setValue(v as SourceID)
+        // 新闻条目的 value 是 `${source}|${id}`
+        const id = v.split("|")[0]
+        if (id in sources) {
+          setValue(v)
+          setPreview(id as SourceID)
         }
       }}
     >
-      <Command.Input
-        ref={inputRef}
-        autoFocus
-        placeholder="搜索你想要的"
-      />
+      <div className="flex items-center">
+        <Command.Input
+          ref={inputRef}
+          autoFocus
+          value={search}
+          onValueChange={setSearch}
+          placeholder={mode === "source" ? "搜索你想要的" : "搜索新闻标题"}
+        />
+        <span className="flex gap-1 px-3 text-sm shrink-0">
+          {(["source", "news"] as const).map(m => (
+            <button
+              type="button"
+              key={m}
+              className={$("px-2 py-1 rounded-md transition-all", mode === m ? "bg-primary/20 color-primary" : "op-60 hover:op-90")}
+              onClick={() => {
+                setMode(m)
+                inputRef.current?.focus()
+              }}
+            >
+              {m === "source" ? "源" : "新闻"}
+            </button>
+          ))}
+        </span>
+      </div>
       <div className="md:flex pt-2">
         <OverlayScrollbar defer className="overflow-y-auto md:min-w-275px">
           <Command.List>
-            <Command.Empty> 没有找到，可以前往 Github 提 issue </Command.Empty>
-            {
-              sourceItems.map(({ column, sources }) => (
-                <Command.Group heading={column} key={column}>
-                  {
-                    sources.map(item => <SourceItem item={item} key={item.id} />)
-                  }
-                </Command.Group>
-              ),
-              )
-            }
+            {mode === "source"
+              ? (
+                  <>
+                    <Command.Empty> 没有找到，可以前往 Github 提 issue </Command.Empty>
+                    {
+                      sourceItems.map(({ column, sources }) => (
+                        <Command.Group heading={column} key={column}>
+                          {
+                            sources.map(item => <SourceItem item={item} key={item.id} />)
+                          }
+                        </Command.Group>
+                      ),
+                      )
+                    }
+                  </>
+                )
+              : (
+                  <>
+                    {isFetching && <Command.Loading> 搜索中... </Command.Loading>}
+                    {!isFetching && <Command.Empty>{q ? " 没有找到相关新闻 " : " 输入关键词搜索所有源的新闻 "}</Command.Empty>}
+                    {newsItems?.map(result => <NewsItem result={result} key={`${result.source}|${result.item.id}`} />)}
+                  </>
+                )}
           </Command.List>
         </OverlayScrollbar>
         <div className="flex-1 pt-2 px-4 min-w-350px max-md:hidden">
-          <CardWrapper id={value} />
+          <CardWrapper id={preview} />
         </div>
       </div>
     </Command.Dialog>
@@ -134,3 +186,31 @@ function SourceItem({ item }: {
     </Command.Item>
   )
 }
+
+function NewsItem({ result }: {
+  result: SearchResult
+}) {
+  const { width } = useWindowSize()
+  const { source, item, updated } = result
+  const relativeTime = useRelativeTime(item.pubDate ?? updated)
+  return (
+    <Command.Item
+      value={`${source}|${item.id}`}
+      className="flex flex-col gap-1 p-2"
+      onSelect={() => window.open(width < 768 ? item.mobileUrl || item.url : item.url)}
+    >
+      <span>{item.title}</span>
+      <span className="flex gap-2 items-center text-xs text-neutral-400/80">
+        <span
+          className={$("w-3 h-3 rounded-md bg-cover")}
+          style={{
+            backgroundImage: `url(/icons/${source.split("-")[0]}.png)`,
+          }}
+        />
+        <span>{sources[source]?.name}</span>
+        {sources[source]?.title && <span>{sources[source].title}</span>}
+        {relativeTime && <span>{relativeTime}</span>}
+      </span>
+    </Command.Item>
+  )
+}
@@ -1,4 +1,6 @@
 import { motion } from "framer-motion"
+import { useNavigate } from "@tanstack/react-router"
+import { safeParseString } from "~/utils"
 
 function ThemeToggle() {
   const { isDark, toggleDark } = useDark()
@@ -12,9 +14,35 @@ function ThemeToggle() {
   )
 }
 
+function FocusFeed() {
+  const toaster = useToast()
+  const copy = useCallback(async () => {
+    try {
+      const jwt = safeParseString(localStorage.getItem("jwt"))
+      const { token }: { token: string } = await myFetch("/me/feed", {
+        headers: {
+          Authorization: `Bearer ${jwt}`,
+        },
+      })
+      const url = `${window.location.origin}/api/feed/focus/${token}.xml`
+      await navigator.clipboard.writeText(url)
+      toaster("已复制关注栏目的 RSS 地址，不要分享给别人", { type: "success" })
+    } catch {
+      toaster("获取订阅地址失败", { type: "error" })
+    }
+  }, [toaster])
+  return (
+    <li onClick={copy} className="cursor-pointer [&_*]:cursor-pointer transition-all">
+      <span className="i-ph:rss-duotone inline-block" />
+      <span>复制关注 RSS</span>
+    </li>
+  )
+}
+
 export function Menu() {
   const { loggedIn, login, logout, userInfo, enableLogin } = useLogin()
   const [shown, show] = useState(false)
+  const navigate = useNavigate()
   return (
     <span className="relative" onMouseEnter={() => show(true)} onMouseLeave={() => show(false)}>
       <span className="flex items-center scale-90">
@@ -65,6 +93,23 @@ export function Menu() {
                     </li>
                   ))}
               <ThemeToggle />
+              <li onClick={() => navigate({ to: "/status" })} className="cursor-pointer [&_*]:cursor-pointer transition-all">
+                <span className="i-ph:heartbeat-duotone inline-block" />
+                <span>源状态</span>
+              </li>
+              {enableLogin && loggedIn && <FocusFeed />}
+              {enableLogin && loggedIn && (
+                <li onClick={() => navigate({ to: "/feeds" })} className="cursor-pointer [&_*]:cursor-pointer transition-all">
+                  <span className="i-ph:rss-simple-duotone inline-block" />
+                  <span>我的订阅</span>
+                </li>
+              )}
+              {enableLogin && loggedIn && (
+                <li onClick={() => navigate({ to: "/alerts" })} className="cursor-pointer [&_*]:cursor-pointer transition-all">
+                  <span className="i-ph:bell-ringing-duotone inline-block" />
+                  <span>关键词提醒</span>
+                </li>
+              )}
               <li onClick={() => window.open(Homepage)} className="cursor-pointer [&_*]:cursor-pointer transition-all">
                 <span className="i-ph:github-logo-duotone inline-block" />
                 <span>Star on Github </span>
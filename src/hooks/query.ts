@@ -23,14 +23,18 @@ export function useEntireQuery(items: SourceID[]) {
     // sort in place
     queryKey: ["entire", [...items].sort()],
     queryFn: async ({ queryKey }) => {
-      const sources = queryKey[1]
+      const sources = queryKey[1] as SourceID[]
       if (sources.length === 0) return null
-      const res: SourceResponse[] | undefined = await myFetch("/s/entire", {
+      const request: Promise<SourceResponse[] | undefined> = myFetch("/s/batch", {
         method: "POST",
         body: {
           sources,
         },
       })
+      sources.forEach(id => batchingSources.set(id, request))
+      const res = await request.finally(() => {
+        sources.forEach(id => batchingSources.get(id) === request && batchingSources.delete(id))
+      })
       if (res?.length) {
         const s = [] as SourceID[]
         res.forEach((v) => {
@@ -51,3 +55,27 @@ export function useEntireQuery(items: SourceID[]) {
     retry: false,
   })
 }
+
+/**
+ * 订阅当前栏目中的源，服务端缓存更新时直接推过来
+ */
+export function useSourceStream(items: SourceID[]) {
+  const update = useUpdateQuery()
+  const key = useMemo(() => [...items].sort().join(","), [items])
+  useEffect(() => {
+    if (!key || typeof EventSource === "undefined") return
+    const eventSource = new EventSource(`/api/stream?ids=${key}`)
+    eventSource.addEventListener("source", (e) => {
+      try {
+        const response: SourceResponse = JSON.parse(e.data)
+        const id = response.id
+        if (cacheSources.has(id) && cacheSources.get(id)!.updatedTime >= response.updatedTime) return
+        cacheSources.set(id, response)
+        update(id)
+      } catch (e) {
+        console.error(e)
+      }
+    })
+    return () => eventSource.close()
+  }, [key, update])
+}
@@ -0,0 +1,74 @@
+import type { FeedSubscription, Source, SourceID } from "@shared/types"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { authFetch } from "~/utils"
+
+// 存一份在本地，没拉到列表前卡片也能显示名字
+const feedSubscriptionsAtom = atomWithStorage<FeedSubscription[]>("feeds", [])
+
+export function useFeeds() {
+  const { loggedIn } = useLogin()
+  const queryClient = useQueryClient()
+  const [subscriptions, setSubscriptions] = useAtom(feedSubscriptionsAtom)
+  const setFocusSources = useSetAtom(focusSourcesAtom)
+
+  const { isError } = useQuery({
+    queryKey: ["feeds"],
+    queryFn: async () => {
+      const res = await authFetch<FeedSubscription[]>("/me/feeds")
+      setSubscriptions(res)
+      return res
+    },
+    enabled: loggedIn,
+    staleTime: 1000 * 60 * 5,
+    retry: false,
+  })
+
+  // 新订阅的直接放到关注栏目里
+  const add = useCallback(async (url: string) => {
+    const subscription = await authFetch<FeedSubscription>("/me/feeds", { method: "POST", body: { url } })
+    setFocusSources(prev => prev.includes(subscription.id) ? prev : [...prev, subscription.id])
+    await queryClient.invalidateQueries({ queryKey: ["feeds"] })
+    return subscription
+  }, [queryClient, setFocusSources])
+
+  const importOPML = useCallback(async (opml: string) => {
+    const res = await authFetch<{ subscriptions: FeedSubscription[], failed: number }>("/me/feeds/opml", { method: "POST", body: { opml } })
+    const ids = res.subscriptions.map(k => k.id)
+    setFocusSources(prev => [...prev, ...ids.filter(k => !prev.includes(k))])
+    await queryClient.invalidateQueries({ queryKey: ["feeds"] })
+    return res
+  }, [queryClient, setFocusSources])
+
+  const remove = useCallback(async (id: SourceID) => {
+    await authFetch(`/me/feeds?id=${id}`, { method: "DELETE" })
+    setFocusSources(prev => prev.filter(k => k !== id))
+    await queryClient.invalidateQueries({ queryKey: ["feeds"] })
+  }, [queryClient, setFocusSources])
+
+  return {
+    subscriptions,
+    isError,
+    add,
+    importOPML,
+    remove,
+  }
+}
+
+/**
+ * 内置源直接取 sources，用户订阅的源从订阅列表里拼一个出来
+ */
+export function useSourceMeta(id: SourceID): Source {
+  const subscriptions = useAtomValue(feedSubscriptionsAtom)
+  return useMemo(() => {
+    if (sources[id]) return sources[id]
+    const subscription = subscriptions.find(k => k.id === id)
+    return {
+      name: subscription?.title ?? "RSS",
+      interval: Interval,
+      color: "primary",
+      type: "realtime",
+      home: subscription?.home,
+      desc: subscription?.url,
+    }
+  }, [id, subscriptions])
+}
@@ -11,11 +11,32 @@
 // Import Routes
 
 import { Route as rootRoute } from './routes/__root'
+import { Route as StatusImport } from './routes/status'
+import { Route as FeedsImport } from './routes/feeds'
+import { Route as AlertsImport } from './routes/alerts'
 import { Route as IndexImport } from './routes/index'
 import { Route as CColumnImport } from './routes/c.$column'
 
 // Create/Update Routes
 
+const StatusRoute = StatusImport.update({
+  id: '/status',
+  path: '/status',
+  getParentRoute: () => rootRoute,
+} as any)
+
+const FeedsRoute = FeedsImport.update({
+  id: '/feeds',
+  path: '/feeds',
+  getParentRoute: () => rootRoute,
+} as any)
+
+const AlertsRoute = AlertsImport.update({
+  id: '/alerts',
+  path: '/alerts',
+  getParentRoute: () => rootRoute,
+} as any)
+
 const IndexRoute = IndexImport.update({
   id: '/',
   path: '/',
@@ -39,6 +60,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexImport
       parentRoute: typeof rootRoute
     }
+    '/alerts': {
+      id: '/alerts'
+      path: '/alerts'
+      fullPath: '/alerts'
+      preLoaderRoute: typeof AlertsImport
+      parentRoute: typeof rootRoute
+    }
+    '/feeds': {
+      id: '/feeds'
+      path: '/feeds'
+      fullPath: '/feeds'
+      preLoaderRoute: typeof FeedsImport
+      parentRoute: typeof rootRoute
+    }
+    '/status': {
+      id: '/status'
+      path: '/status'
+      fullPath: '/status'
+      preLoaderRoute: typeof StatusImport
+      parentRoute: typeof rootRoute
+    }
     '/c/$column': {
       id: '/c/$column'
       path: '/c/$column'
@@ -53,36 +95,51 @@ declare module '@tanstack/react-router' {
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/alerts': typeof AlertsRoute
+  '/feeds': typeof FeedsRoute
+  '/status': typeof StatusRoute
   '/c/$column': typeof CColumnRoute
 }
 
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/alerts': typeof AlertsRoute
+  '/feeds': typeof FeedsRoute
+  '/status': typeof StatusRoute
   '/c/$column': typeof CColumnRoute
 }
 
 export interface FileRoutesById {
   __root__: typeof rootRoute
   '/': typeof IndexRoute
+  '/alerts': typeof AlertsRoute
+  '/feeds': typeof FeedsRoute
+  '/status': typeof StatusRoute
   '/c/$column': typeof CColumnRoute
 }
 
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/c/$column'
+  fullPaths: '/' | '/alerts' | '/feeds' | '/status' | '/c/$column'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/c/$column'
-  id: '__root__' | '/' | '/c/$column'
+  to: '/' | '/alerts' | '/feeds' | '/status' | '/c/$column'
+  id: '__root__' | '/' | '/alerts' | '/feeds' | '/status' | '/c/$column'
   fileRoutesById: FileRoutesById
 }
 
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  AlertsRoute: typeof AlertsRoute
+  FeedsRoute: typeof FeedsRoute
+  StatusRoute: typeof StatusRoute
   CColumnRoute: typeof CColumnRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  AlertsRoute: AlertsRoute,
+  FeedsRoute: FeedsRoute,
+  StatusRoute: StatusRoute,
   CColumnRoute: CColumnRoute,
 }
 
@@ -97,12 +154,24 @@ export const routeTree = rootRoute
       "filePath": "__root.tsx",
       "children": [
         "/",
+        "/alerts",
+        "/feeds",
+        "/status",
         "/c/$column"
       ]
     },
     "/": {
       "filePath": "index.tsx"
     },
+    "/alerts": {
+      "filePath": "alerts.tsx"
+    },
+    "/feeds": {
+      "filePath": "feeds.tsx"
+    },
+    "/status": {
+      "filePath": "status.tsx"
+    },
     "/c/$column": {
       "filePath": "c.$column.tsx"
     }
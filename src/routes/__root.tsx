@@ -27,6 +27,7 @@ function NotFoundComponent() {
 function RootComponent() {
   useOnReload()
   useSync()
+  useFeeds()
   usePWA()
   return (
     <>
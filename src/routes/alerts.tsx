@@ -0,0 +1,297 @@
+import type { AlertRule, SourceID, Webhook, WebhookTemplate } from "@shared/types"
+import { createFileRoute } from "@tanstack/react-router"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { useTitle } from "react-use"
+import { authFetch } from "~/utils"
+
+export const Route = createFileRoute("/alerts")({
+  component: AlertsComponent,
+})
+
+function urlBase64ToUint8Array(base64: string) {
+  const raw = atob((base64 + "=".repeat((4 - base64.length % 4) % 4)).replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(raw, c => c.charCodeAt(0))
+}
+
+const pushSupported = typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window
+
+function AlertsComponent() {
+  useTitle("NewsNow | 关键词提醒")
+  const { loggedIn, enableLogin, login } = useLogin()
+
+  return (
+    <div className="flex flex-col gap-4 max-w-900px mx-auto">
+      <span className="text-xl font-bold">关键词提醒</span>
+      {!enableLogin
+        ? <span className="op-70">服务器未开启登录，无法使用提醒</span>
+        : !loggedIn
+            ? (
+                <button type="button" className="self-start btn op-70" onClick={login}>
+                  登录后才能设置提醒
+                </button>
+              )
+            : (
+                <>
+                  <PushToggle />
+                  <RuleForm />
+                  <RuleList />
+                  <span className="text-xl font-bold mt-4">Webhook</span>
+                  <WebhookForm />
+                  <WebhookList />
+                </>
+              )}
+    </div>
+  )
+}
+
+function PushToggle() {
+  const toaster = useToast()
+  const [subscription, setSubscription] = useState<PushSubscription | null>()
+
+  useEffect(() => {
+    if (!pushSupported) return
+    navigator.serviceWorker.ready
+      .then(registration => registration.pushManager.getSubscription())
+      .then(setSubscription)
+  }, [])
+
+  const toggle = useCallback(async () => {
+    try {
+      const registration = await navigator.serviceWorker.ready
+      if (subscription) {
+        await authFetch("/me/push", { method: "DELETE", body: { endpoint: subscription.endpoint } })
+        await subscription.unsubscribe()
+        setSubscription(null)
+      } else {
+        const { publicKey } = await authFetch<{ publicKey: string }>("/me/push")
+        const res = await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        })
+        await authFetch("/me/push", { method: "POST", body: res.toJSON() })
+        setSubscription(res)
+      }
+    } catch (e: any) {
+      toaster(e?.data?.message ?? e?.message ?? "开启通知失败", { type: "error" })
+    }
+  }, [subscription, toaster])
+
+  if (!pushSupported) return <span className="op-70">当前浏览器不支持推送通知，可以尝试添加到主屏幕后再打开</span>
+  return (
+    <div className="flex items-center gap-2 p-3 rounded-xl bg-base bg-op-70! text-sm">
+      <span className={$("inline-block", subscription ? "i-ph:bell-ringing-duotone color-green" : "i-ph:bell-slash-duotone op-70")} />
+      <span className="flex-1">{subscription ? "本设备已开启通知" : "本设备未开启通知"}</span>
+      <button type="button" className="btn" onClick={toggle}>
+        {subscription ? "关闭" : "开启"}
+      </button>
+    </div>
+  )
+}
+
+function SourcePicker({ selected, setSelected }: { selected: SourceID[], setSelected: React.Dispatch<React.SetStateAction<SourceID[]>> }) {
+  const ids = useMemo(() => typeSafeObjectEntries(sources).filter(([, v]) => !v.redirect).map(([k]) => k), [])
+  return (
+    <span className="flex flex-wrap gap-1">
+      {ids.map(id => (
+        <button
+          type="button"
+          key={id}
+          className={$(
+            "px-2 rounded-md text-xs",
+            selected.includes(id) ? "bg-primary color-white" : "bg-neutral-400/10",
+          )}
+          onClick={() => setSelected(prev => prev.includes(id) ? prev.filter(k => k !== id) : [...prev, id])}
+        >
+          {sources[id].title ? `${sources[id].name}-${sources[id].title}` : sources[id].name}
+        </button>
+      ))}
+    </span>
+  )
+}
+
+function RuleForm() {
+  const queryClient = useQueryClient()
+  const toaster = useToast()
+  const [keywords, setKeywords] = useState("")
+  const [selected, setSelected] = useState<SourceID[]>([])
+
+  const submit = useCallback(async () => {
+    try {
+      await authFetch("/me/alerts", {
+        method: "POST",
+        body: {
+          keywords: keywords.split(/[,，\s]+/).filter(Boolean),
+          sources: selected,
+        },
+      })
+      setKeywords("")
+      setSelected([])
+      queryClient.invalidateQueries({ queryKey: ["alerts"] })
+    } catch (e: any) {
+      toaster(e?.data?.message ?? e?.message ?? "添加失败", { type: "error" })
+    }
+  }, [keywords, selected, queryClient, toaster])
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-xl bg-base bg-op-70! text-sm">
+      <span className="flex gap-2">
+        <input
+          className="flex-1 bg-transparent outline-none border-b border-neutral-400/50"
+          placeholder="关键词，多个用空格或逗号分隔，标题包含任意一个就提醒"
+          value={keywords}
+          onChange={e => setKeywords(e.target.value)}
+        />
+        <button type="button" className="btn" disabled={!keywords.trim()} onClick={submit}>
+          添加
+        </button>
+      </span>
+      <span className="op-70">限定源，不选为全部</span>
+      <SourcePicker selected={selected} setSelected={setSelected} />
+    </div>
+  )
+}
+
+function RuleList() {
+  const queryClient = useQueryClient()
+  const { data, isError } = useQuery({
+    queryKey: ["alerts"],
+    queryFn: () => authFetch<AlertRule[]>("/me/alerts"),
+    retry: false,
+  })
+
+  const remove = useCallback(async (id: string) => {
+    await authFetch(`/me/alerts?id=${id}`, { method: "DELETE" })
+    queryClient.invalidateQueries({ queryKey: ["alerts"] })
+  }, [queryClient])
+
+  if (isError) return <span className="op-70">获取失败，服务器可能没有配置推送</span>
+  return (
+    <ol className="flex flex-col gap-2">
+      {data?.map(rule => (
+        <li key={rule.id} className="flex gap-4 items-center p-3 rounded-xl bg-base bg-op-70! text-sm">
+          <span className="flex-1 flex flex-wrap gap-1">
+            {rule.keywords.map(k => <span key={k} className="px-2 rounded-md bg-primary/10 color-primary">{k}</span>)}
+          </span>
+          <span className="op-70 truncate max-w-50%">
+            {rule.sources.length ? rule.sources.map(k => sources[k]?.name ?? k).join("、") : "全部源"}
+          </span>
+          <button type="button" className="btn i-ph:trash-duotone" onClick={() => remove(rule.id)} />
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+const templates: { value: WebhookTemplate, label: string }[] = [
+  { value: "json", label: "JSON" },
+  { value: "slack", label: "Slack" },
+  { value: "dingtalk", label: "钉钉" },
+  { value: "feishu", label: "飞书" },
+  { value: "wecom", label: "企业微信" },
+]
+
+function WebhookForm() {
+  const queryClient = useQueryClient()
+  const toaster = useToast()
+  const [url, setUrl] = useState("")
+  const [template, setTemplate] = useState<WebhookTemplate>("json")
+  const [keywords, setKeywords] = useState("")
+  const [secret, setSecret] = useState("")
+  const [selected, setSelected] = useState<SourceID[]>([])
+
+  const submit = useCallback(async () => {
+    try {
+      await authFetch("/me/webhooks", {
+        method: "POST",
+        body: {
+          url: url.trim(),
+          template,
+          keywords: keywords.split(/[,，\s]+/).filter(Boolean),
+          secret,
+          sources: selected,
+        },
+      })
+      setUrl("")
+      setKeywords("")
+      setSecret("")
+      setSelected([])
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] })
+    } catch (e: any) {
+      toaster(e?.data?.message ?? e?.message ?? "添加失败", { type: "error" })
+    }
+  }, [url, template, keywords, secret, selected, queryClient, toaster])
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-xl bg-base bg-op-70! text-sm">
+      <span className="flex gap-2">
+        <input
+          className="flex-1 bg-transparent outline-none border-b border-neutral-400/50"
+          placeholder="Webhook 地址"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+        />
+        <select className="bg-transparent outline-none" value={template} onChange={e => setTemplate(e.target.value as WebhookTemplate)}>
+          {templates.map(k => <option key={k.value} value={k.value}>{k.label}</option>)}
+        </select>
+      </span>
+      <span className="flex gap-2">
+        <input
+          className="flex-1 bg-transparent outline-none border-b border-neutral-400/50"
+          placeholder="关键词过滤，可不填"
+          value={keywords}
+          onChange={e => setKeywords(e.target.value)}
+        />
+        <input
+          className="flex-1 bg-transparent outline-none border-b border-neutral-400/50"
+          placeholder="签名密钥，可不填"
+          value={secret}
+          onChange={e => setSecret(e.target.value)}
+        />
+        <button type="button" className="btn" disabled={!url.trim() || !selected.length} onClick={submit}>
+          添加
+        </button>
+      </span>
+      <span className="op-70">推送哪些源的新条目</span>
+      <SourcePicker selected={selected} setSelected={setSelected} />
+    </div>
+  )
+}
+
+function WebhookList() {
+  const queryClient = useQueryClient()
+  const { data, isError } = useQuery({
+    queryKey: ["webhooks"],
+    queryFn: () => authFetch<Webhook[]>("/me/webhooks"),
+    retry: false,
+  })
+
+  const remove = useCallback(async (id: string) => {
+    await authFetch(`/me/webhooks?id=${id}`, { method: "DELETE" })
+    queryClient.invalidateQueries({ queryKey: ["webhooks"] })
+  }, [queryClient])
+
+  if (isError) return <span className="op-70">获取失败</span>
+  return (
+    <ol className="flex flex-col gap-2">
+      {data?.map(webhook => (
+        <li key={webhook.id} className="flex gap-4 items-center p-3 rounded-xl bg-base bg-op-70! text-sm">
+          <span
+            className={$("inline-block", webhook.lastStatus === "failed" ? "i-ph:warning-circle-duotone color-red" : "i-ph:webhooks-logo-duotone op-70")}
+            title={webhook.lastError}
+          />
+          <span className="flex-1 flex flex-col min-w-0">
+            <span className="truncate">{webhook.url}</span>
+            <span className="op-70 truncate">
+              {templates.find(k => k.value === webhook.template)?.label}
+              {" · "}
+              {webhook.sources.map(k => sources[k]?.name ?? k).join("、")}
+              {!!webhook.keywords.length && ` · ${webhook.keywords.join("、")}`}
+              {webhook.hasSecret && " · 已加签"}
+            </span>
+          </span>
+          <button type="button" className="btn i-ph:trash-duotone" onClick={() => remove(webhook.id)} />
+        </li>
+      ))}
+    </ol>
+  )
+}
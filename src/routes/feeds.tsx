@@ -0,0 +1,113 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { useTitle } from "react-use"
+
+export const Route = createFileRoute("/feeds")({
+  component: FeedsComponent,
+})
+
+function FeedsComponent() {
+  useTitle("NewsNow | 我的订阅")
+  const { loggedIn, enableLogin, login } = useLogin()
+
+  return (
+    <div className="flex flex-col gap-4 max-w-900px mx-auto">
+      <span className="text-xl font-bold">我的订阅</span>
+      {!enableLogin
+        ? <span className="op-70">服务器未开启登录，无法添加订阅</span>
+        : !loggedIn
+            ? (
+                <button type="button" className="self-start btn op-70" onClick={login}>
+                  登录后才能添加订阅
+                </button>
+              )
+            : (
+                <>
+                  <FeedForm />
+                  <FeedList />
+                </>
+              )}
+    </div>
+  )
+}
+
+function FeedForm() {
+  const toaster = useToast()
+  const { add, importOPML } = useFeeds()
+  const [url, setUrl] = useState("")
+  const [loading, setLoading] = useState(false)
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  const submit = useCallback(async () => {
+    setLoading(true)
+    try {
+      const subscription = await add(url.trim())
+      setUrl("")
+      toaster(`已订阅 ${subscription.title}，卡片在关注栏目里`, { type: "success" })
+    } catch (e: any) {
+      toaster(e?.data?.message ?? e?.message ?? "订阅失败", { type: "error" })
+    } finally {
+      setLoading(false)
+    }
+  }, [url, add, toaster])
+
+  const upload = useCallback(async (file?: File) => {
+    if (!file) return
+    setLoading(true)
+    try {
+      const { subscriptions, failed } = await importOPML(await file.text())
+      toaster(`导入了 ${subscriptions.length} 个订阅${failed ? `，${failed} 个无法解析` : ""}`, { type: failed ? "warning" : "success" })
+    } catch (e: any) {
+      toaster(e?.data?.message ?? e?.message ?? "导入失败", { type: "error" })
+    } finally {
+      setLoading(false)
+      if (fileRef.current) fileRef.current.value = ""
+    }
+  }, [importOPML, toaster])
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-xl bg-base bg-op-70! text-sm">
+      <span className="flex gap-2">
+        <input
+          className="flex-1 bg-transparent outline-none border-b border-neutral-400/50"
+          placeholder="RSS 或 Atom 地址"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+        />
+        <button type="button" className="btn" disabled={!url.trim() || loading} onClick={submit}>
+          订阅
+        </button>
+        <button type="button" className="btn" disabled={loading} onClick={() => fileRef.current?.click()}>
+          导入 OPML
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".opml,.xml,text/xml,text/x-opml"
+          className="hidden"
+          onChange={e => upload(e.target.files?.[0])}
+        />
+      </span>
+      <span className="op-70">{loading ? "正在解析订阅…" : "订阅后会作为卡片加到关注栏目"}</span>
+    </div>
+  )
+}
+
+function FeedList() {
+  const { subscriptions, isError, remove } = useFeeds()
+
+  if (isError) return <span className="op-70">获取失败</span>
+  return (
+    <ol className="flex flex-col gap-2">
+      {subscriptions.map(subscription => (
+        <li key={subscription.id} className="flex gap-4 items-center p-3 rounded-xl bg-base bg-op-70! text-sm">
+          <span className="i-ph:rss-duotone inline-block op-70" />
+          <span className="flex-1 flex flex-col min-w-0">
+            <span className="truncate">{subscription.title}</span>
+            <span className="op-70 truncate">{subscription.url}</span>
+          </span>
+          <button type="button" className="btn i-ph:trash-duotone" onClick={() => remove(subscription.id)} />
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,109 @@
+import type { SourceDrift, SourceHealth } from "@shared/types"
+import { createFileRoute } from "@tanstack/react-router"
+import { useQuery } from "@tanstack/react-query"
+import { useTitle } from "react-use"
+
+export const Route = createFileRoute("/status")({
+  component: StatusComponent,
+})
+
+function uptimeColor(uptime?: number) {
+  if (uptime === undefined) return "bg-neutral-400/50"
+  if (uptime >= 0.95) return "bg-green"
+  if (uptime >= 0.8) return "bg-yellow"
+  return "bg-red"
+}
+
+function StatusComponent() {
+  useTitle("NewsNow | 源状态")
+  const { data, isError, isFetching } = useQuery({
+    queryKey: ["health"],
+    queryFn: async () => {
+      const res: SourceHealth[] = await myFetch("/health/sources")
+      return res
+    },
+    refetchInterval: 60 * 1000,
+    retry: false,
+  })
+
+  // 坏掉的排在前面
+  const items = useMemo(() => data && [...data].sort((m, n) => {
+    if (m.lastStatus !== n.lastStatus) return m.lastStatus === "failed" ? -1 : n.lastStatus === "failed" ? 1 : 0
+    return (m.uptime ?? 1) - (n.uptime ?? 1)
+  }), [data])
+
+  return (
+    <div className="flex flex-col gap-4 max-w-900px mx-auto">
+      <div className="flex items-center justify-between">
+        <span className="text-xl font-bold">源状态</span>
+        <span className="text-sm op-70">
+          {isError ? "获取失败" : isFetching ? "加载中..." : "最近 24 小时"}
+        </span>
+      </div>
+      <ol className="flex flex-col gap-2">
+        {items?.map(health => <StatusItem key={health.id} health={health} />)}
+      </ol>
+    </div>
+  )
+}
+
+function StatusItem({ health }: { health: SourceHealth }) {
+  const source = sources[health.id]
+  const lastSuccess = useRelativeTime(health.lastSuccess ?? "")
+  const lastError = useRelativeTime(health.lastError?.time ?? "")
+  if (!source) return null
+  return (
+    <li className="flex gap-4 items-center p-3 rounded-xl bg-base bg-op-70! text-sm">
+      <span className="flex gap-2 items-center min-w-180px">
+        <span
+          className="w-6 h-6 rounded-full bg-cover shrink-0"
+          style={{
+            backgroundImage: `url(/icons/${health.id.split("-")[0]}.png)`,
+          }}
+        />
+        <span className="font-bold">{source.name}</span>
+        {source.title && <span className={$("text-xs", `color-${source.color}`)}>{source.title}</span>}
+      </span>
+      <span className="flex-1 flex items-center gap-2">
+        <span className="flex-1 h-2 rounded-full bg-neutral-400/20 overflow-hidden">
+          <span
+            className={$("block h-full rounded-full", uptimeColor(health.uptime))}
+            style={{ width: `${(health.uptime ?? 0) * 100}%` }}
+          />
+        </span>
+        <span className="w-14 text-right font-mono">
+          {health.uptime === undefined ? "-" : `${(health.uptime * 100).toFixed(1)}%`}
+        </span>
+      </span>
+      <span className="w-20 text-right op-70 font-mono max-md:hidden">
+        {health.total ? `${health.latency}ms` : "-"}
+      </span>
+      <span className="w-28 text-right op-70 max-md:hidden">
+        {lastSuccess ? `${lastSuccess}成功` : "-"}
+      </span>
+      <span
+        className={$("w-28 text-right", health.lastStatus === "failed" ? "color-red" : "op-50")}
+        title={health.lastError?.message}
+      >
+        {health.lastError ? `${lastError}出错` : "无错误"}
+      </span>
+      <Drift drift={health.drift} />
+    </li>
+  )
+}
+
+/**
+ * 解析出来的条目有多少没通过校验，多半是上游改版了
+ */
+function Drift({ drift }: { drift?: SourceDrift }) {
+  if (!drift) return <span className="w-20 text-right op-50 max-md:hidden">-</span>
+  const fields = Object.entries(drift.fields).map(([k, v]) => `${k}: ${v}`).join("\n")
+  return (
+    <span
+      className="w-20 text-right color-yellow max-md:hidden"
+      title={`最近 24 小时丢弃 ${drift.dropped}/${drift.total} 条\n${fields}`}
+    >
+      {`丢弃 ${drift.dropped}`}
+    </span>
+  )
+}
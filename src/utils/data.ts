@@ -2,3 +2,7 @@ import type { SourceID, SourceResponse } from "@shared/types"
 
 export const cacheSources = new Map<SourceID, SourceResponse>()
 export const refetchSources = new Set<SourceID>()
+/**
+ * 批量请求中的源，卡片等它返回就行，不用再单独请求
+ */
+export const batchingSources = new Map<SourceID, Promise<unknown>>()
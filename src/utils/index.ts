@@ -1,5 +1,6 @@
 import type { MaybePromise } from "@shared/type.util"
 import { $fetch } from "ofetch"
+import type { FetchOptions } from "ofetch"
 
 export function safeParseString(str: any) {
   try {
@@ -43,6 +44,19 @@ export const myFetch = $fetch.create({
   baseURL: "/api",
 })
 
+/**
+ * 带上登录的 jwt 请求 /api/me 下的接口
+ */
+export function authFetch<T>(url: string, options: FetchOptions<"json"> = {}): Promise<T> {
+  const jwt = safeParseString(localStorage.getItem("jwt"))
+  return myFetch<T>(url, {
+    ...options,
+    headers: {
+      Authorization: `Bearer ${jwt}`,
+    },
+  })
+}
+
 export function isiOS() {
   return [
     "iPad Simulator",
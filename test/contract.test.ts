@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { checkNewsItems } from "./contract"
+
+describe("contract", () => {
+  it("合格的输出", () => {
+    expect(checkNewsItems([
+      { id: 1, title: "a", url: "https://a.com/1", pubDate: 1700000000000 },
+      { id: 2, title: "b", url: "http://a.com/2", extra: { date: "2024-10-11 12:30" } },
+    ])).toEqual([])
+  })
+
+  it("列出所有问题", () => {
+    expect(checkNewsItems([])).toEqual(["empty result"])
+    expect(checkNewsItems([
+      { id: 1, title: " ", url: "/1" },
+      { id: 1, title: "b", url: "https://a.com/2", pubDate: "3分钟前" },
+    ])).toEqual([
+      `#0 " ": empty title`,
+      `#0 " ": url is not absolute: /1`,
+      `#1 "b": duplicate id 1`,
+      `#1 "b": unparseable pubDate 3分钟前`,
+    ])
+  })
+})
@@ -0,0 +1,37 @@
+import type { NewsItem } from "@shared/types"
+
+function isAbsoluteURL(url: unknown) {
+  if (typeof url !== "string") return false
+  try {
+    return ["http:", "https:"].includes(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+function isParseableDate(date: unknown) {
+  if (typeof date === "number") return Number.isFinite(date) && date > 0
+  if (typeof date === "string") return !Number.isNaN(new Date(date).getTime())
+  return false
+}
+
+/**
+ * 检查 getter 的输出是否符合 NewsItem 的约定，返回所有问题，空数组表示没问题
+ */
+export function checkNewsItems(items: NewsItem[]) {
+  const problems: string[] = []
+  if (!Array.isArray(items) || !items.length) return ["empty result"]
+  const ids = new Set<NewsItem["id"]>()
+  items.forEach((item, i) => {
+    const at = `#${i} ${JSON.stringify(item.title)}`
+    if (typeof item.title !== "string" || !item.title.trim()) problems.push(`${at}: empty title`)
+    if (!isAbsoluteURL(item.url)) problems.push(`${at}: url is not absolute: ${item.url}`)
+    if (item.mobileUrl !== undefined && !isAbsoluteURL(item.mobileUrl)) problems.push(`${at}: mobileUrl is not absolute: ${item.mobileUrl}`)
+    if (item.id === undefined || item.id === null || item.id === "") problems.push(`${at}: empty id`)
+    else if (ids.has(item.id)) problems.push(`${at}: duplicate id ${item.id}`)
+    ids.add(item.id)
+    if (item.pubDate !== undefined && !isParseableDate(item.pubDate)) problems.push(`${at}: unparseable pubDate ${item.pubDate}`)
+    if (item.extra?.date !== undefined && !isParseableDate(item.extra.date)) problems.push(`${at}: unparseable extra.date ${item.extra.date}`)
+  })
+  return problems
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import type { FixtureEntry } from "./fixture"
+import { recordFetch, replayFetch } from "./fixture"
+
+describe("fixture", () => {
+  const gbk = new Uint8Array([0xC4, 0xE3, 0xBA, 0xC3])
+  let count = 0
+  const upstream: typeof fetch = async (input) => {
+    const url = String(input)
+    count++
+    if (url.endsWith("/gbk")) return new Response(gbk, { headers: { "content-type": "text/html; charset=gbk" } })
+    const headers = new Headers({ "content-type": "application/json" })
+    headers.append("set-cookie", "a=1")
+    headers.append("set-cookie", "b=2")
+    return new Response(JSON.stringify({ count }), { headers })
+  }
+
+  it("录制后回放得到相同的响应", async () => {
+    const entries: FixtureEntry[] = []
+    const recording = recordFetch(upstream, entries)
+    await recording("https://a.com/api")
+    await recording("https://a.com/api")
+    await recording("https://a.com/gbk")
+    await recording("https://a.com/api", { method: "POST", body: "x=1" })
+    expect(entries.map(k => k.encoding)).toEqual([undefined, undefined, "base64", undefined])
+
+    const replaying = replayFetch(JSON.parse(JSON.stringify(entries)))
+    // 同一个请求按录制的顺序返回
+    expect(await (await replaying("https://a.com/api")).json()).toEqual({ count: 1 })
+    const res = await replaying("https://a.com/api")
+    expect(await res.json()).toEqual({ count: 2 })
+    expect(res.headers.getSetCookie()).toEqual(["a=1", "b=2"])
+    expect(new Uint8Array(await (await replaying("https://a.com/gbk")).arrayBuffer())).toEqual(gbk)
+    expect(await (await replaying("https://a.com/api", { method: "POST", body: "x=1" })).json()).toEqual({ count: 4 })
+  })
+
+  it("没有录过的请求报错", async () => {
+    await expect(replayFetch([])("https://a.com/none")).rejects.toThrow("No fixture for GET https://a.com/none")
+  })
+})
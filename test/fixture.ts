@@ -0,0 +1,105 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { Buffer } from "node:buffer"
+import { projectDir } from "../shared/dir"
+
+export interface FixtureEntry {
+  method: string
+  url: string
+  /**
+   * POST 的请求体，参与匹配
+   */
+  requestBody?: string
+  status: number
+  headers: Record<string, string>
+  setCookie?: string[]
+  body: string
+  /**
+   * 不是 utf-8 的响应，比如 gb2312 的网页，存成 base64
+   */
+  encoding?: "base64"
+}
+
+export interface Fixture {
+  recorded: number
+  entries: FixtureEntry[]
+}
+
+export const fixtureDir = join(projectDir, "test", "fixtures", "sources")
+
+export function fixturePath(id: string) {
+  return join(fixtureDir, `${id}.json`)
+}
+
+export function loadFixture(id: string): Fixture | undefined {
+  const file = fixturePath(id)
+  if (!existsSync(file)) return
+  return JSON.parse(readFileSync(file, "utf-8"))
+}
+
+export function saveFixture(id: string, fixture: Fixture) {
+  const file = fixturePath(id)
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, `${JSON.stringify(fixture, undefined, 2)}\n`)
+}
+
+function describeRequest(input: Parameters<typeof fetch>[0], init?: RequestInit) {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url
+  const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase()
+  const body = init?.body
+  const requestBody = typeof body === "string" ? body : body instanceof URLSearchParams ? body.toString() : undefined
+  return { url, method, requestBody }
+}
+
+type RequestKey = Pick<FixtureEntry, "method" | "url" | "requestBody">
+function sameRequest(a: RequestKey, b: RequestKey) {
+  return a.method === b.method && a.url === b.url && (a.requestBody ?? "") === (b.requestBody ?? "")
+}
+
+/**
+ * 包一层真正的 fetch，把每次请求和响应都记到 entries 里
+ */
+export function recordFetch(fetch: typeof globalThis.fetch, entries: FixtureEntry[]): typeof globalThis.fetch {
+  return async (input, init) => {
+    const request = describeRequest(input, init)
+    const res = await fetch(input, init)
+    const buffer = Buffer.from(await res.arrayBuffer())
+    let body: string
+    let encoding: FixtureEntry["encoding"]
+    try {
+      body = new TextDecoder("utf-8", { fatal: true }).decode(buffer)
+    } catch {
+      body = buffer.toString("base64")
+      encoding = "base64"
+    }
+    const headers = Object.fromEntries([...res.headers.entries()].filter(([k]) => k !== "set-cookie" && k !== "content-encoding" && k !== "content-length"))
+    const setCookie = res.headers.getSetCookie()
+    entries.push({
+      ...request,
+      status: res.status,
+      headers,
+      setCookie: setCookie.length ? setCookie : undefined,
+      body,
+      encoding,
+    })
+    return new Response(buffer, { status: res.status, statusText: res.statusText, headers: res.headers })
+  }
+}
+
+/**
+ * 按请求方法、地址和请求体回放录好的响应，同一个请求录了多次就按顺序返回
+ */
+export function replayFetch(entries: FixtureEntry[]): typeof globalThis.fetch {
+  const used = new Set<FixtureEntry>()
+  return async (input, init) => {
+    const request = describeRequest(input, init)
+    const candidates = entries.filter(k => sameRequest(k, request))
+    const entry = candidates.find(k => !used.has(k)) ?? candidates.at(-1)
+    if (!entry) throw new Error(`No fixture for ${request.method} ${request.url}`)
+    used.add(entry)
+    const headers = new Headers(entry.headers)
+    entry.setCookie?.forEach(k => headers.append("set-cookie", k))
+    const body = entry.encoding === "base64" ? Buffer.from(entry.body, "base64") : entry.body
+    return new Response(body, { status: entry.status, headers })
+  }
+}
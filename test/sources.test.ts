@@ -0,0 +1,46 @@
+/// <reference types="vite/client" />
+import { basename } from "node:path"
+import process from "node:process"
+import type { SourceID } from "@shared/types"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { checkNewsItems } from "./contract"
+import type { FixtureEntry } from "./fixture"
+import { loadFixture, recordFetch, replayFetch, saveFixture } from "./fixture"
+
+// 录制：RECORD=1 pnpm test test/sources.test.ts -t weibo，会真的去请求并写入 test/fixtures/sources/weibo.json
+// 平时没网也能跑，直接回放录好的响应，没有录过的源算失败，新加的源要一起录好
+const record = !!process.env.RECORD
+const realFetch = globalThis.fetch
+
+// trending 是合并其他源的，依赖 fetcher
+const modules = import.meta.glob<{ default: unknown }>([
+  "../server/sources/*.ts",
+  "../server/sources/**/index.ts",
+  "!../server/sources/trending.ts",
+], { eager: true })
+const getters = collectGetters(Object.fromEntries(Object.entries(modules)
+  .map(([path, module]) => [basename(path.replace(/\/index\.ts$/, ".ts"), ".ts"), module])))
+
+// 只测启用了的源，父源会重定向到第一个子源
+const ids = Object.keys(getters).filter(id => sources[id as SourceID] && !sources[id as SourceID].redirect)
+
+describe("sources", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  ids.forEach((id) => {
+    const fixture = loadFixture(id)
+    it(id, async () => {
+      if (!record && !fixture) throw new Error(`No fixture for ${id}, record it with RECORD=1`)
+      // 有的源请求地址里带时间戳，回放时把时间定在录制的时候
+      if (!record) vi.useFakeTimers({ now: fixture!.recorded, toFake: ["Date"] })
+      const entries: FixtureEntry[] = []
+      vi.stubGlobal("fetch", record ? recordFetch(realFetch, entries) : replayFetch(fixture!.entries))
+      const items = await getters[id]()
+      if (record) saveFixture(id, { recorded: Date.now(), entries })
+      expect(checkNewsItems(items)).toEqual([])
+    }, record ? 60 * 1000 : 10 * 1000)
+  })
+})
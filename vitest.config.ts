@@ -22,7 +22,7 @@ export default defineConfig({
       presets: [
         {
           package: "h3",
-          ignore: [/^[A-Z]/, r => r === "use"],
+          ignore: [/^[A-Z]/, r => r !== "use"],
         },
       ],
       dirs: ["server/utils", "shared"],